@@ -0,0 +1,160 @@
+#!/usr/bin/env node
+/**
+ * Search benchmark over a synthetic index.
+ *
+ * Compares the VectorIndex search (normalized Float32 matrix + top-k heap)
+ * with a naive baseline (cosineSimilarity per entry + full sort), checks
+ * both return the same results, and reports per-query timings.
+ *
+ * With --ann, also builds the HNSW index and reports its latency and
+ * recall@limit against exact search.
+ *
+ * Usage: npm run bench -- [--notes 100000] [--dims 384] [--queries 50]
+ *                         [--limit 10] [--topics 200] [--max-ms <fail if slower per query>]
+ *                         [--ann] [--m 16] [--ef-construction 100] [--ef-search 64]
+ */
+
+import { VectorIndex } from '../dist/vectors.js';
+import { AnnIndex } from '../dist/hnsw.js';
+import { cosineSimilarity } from '../dist/search.js';
+
+const options = parseArgs(process.argv.slice(2));
+const random = mulberry32(42);
+
+console.log(`Building synthetic index: ${options.notes} notes x ${options.dims} dims`);
+// Real embeddings cluster by topic, so notes are drawn around topic centroids
+const topics = Array.from({ length: options.topics }, () => randomVector(options.dims));
+const entries = new Map();
+for (let i = 0; i < options.notes; i++) {
+  entries.set(`Notes/note_${i}.md`, { embedding: nearTopic() });
+}
+const queries = Array.from({ length: options.queries }, () => nearTopic());
+
+let started = performance.now();
+const index = VectorIndex.build(entries, options.dims);
+const buildMs = performance.now() - started;
+
+// Naive baseline: score everything, sort everything, slice
+started = performance.now();
+const baseline = queries.map((query) => {
+  const scored = [];
+  for (const [key, entry] of entries) {
+    const score = cosineSimilarity(query, entry.embedding);
+    if (score >= -1) scored.push({ key, score });
+  }
+  scored.sort((a, b) => b.score - a.score);
+  return scored.slice(0, options.limit);
+});
+const baselineMs = (performance.now() - started) / queries.length;
+
+started = performance.now();
+const indexed = queries.map((query) =>
+  index.search(query, { limit: options.limit, threshold: -1 })
+);
+const indexMs = (performance.now() - started) / queries.length;
+
+// Results must agree (scores can differ in the last float bits)
+let mismatches = 0;
+for (let q = 0; q < queries.length; q++) {
+  for (let i = 0; i < options.limit; i++) {
+    const a = baseline[q][i];
+    const b = indexed[q][i];
+    if (!a || !b || Math.abs(a.score - b.score) > 1e-4) mismatches++;
+  }
+}
+
+const report = {
+  notes: options.notes,
+  dims: options.dims,
+  queries: options.queries,
+  limit: options.limit,
+  buildMs: round(buildMs),
+  baselineMsPerQuery: round(baselineMs),
+  indexMsPerQuery: round(indexMs),
+  speedup: round(baselineMs / indexMs),
+  mismatches,
+};
+
+if (options.ann) {
+  started = performance.now();
+  const ann = new AnnIndex(index, {
+    m: options.m,
+    efConstruction: options.efConstruction,
+    efSearch: options.efSearch,
+    minVectors: 0,
+  }, 'bench');
+  while (!ann.isReady()) {
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+  report.annBuildMs = round(performance.now() - started);
+
+  started = performance.now();
+  const approximate = queries.map((query) =>
+    ann.search(query, { limit: options.limit, threshold: -1 })
+  );
+  report.annMsPerQuery = round((performance.now() - started) / queries.length);
+
+  let found = 0;
+  for (let q = 0; q < queries.length; q++) {
+    const exactKeys = new Set(indexed[q].map((hit) => hit.key));
+    found += approximate[q].filter((hit) => exactKeys.has(hit.key)).length;
+  }
+  report.annRecall = round(found / (queries.length * options.limit));
+}
+
+console.log(JSON.stringify(report, null, 2));
+
+if (mismatches > 0) {
+  console.error('FAIL: indexed results differ from the baseline');
+  process.exit(1);
+}
+if (options.maxMs !== undefined && indexMs > options.maxMs) {
+  console.error(`FAIL: ${round(indexMs)} ms/query exceeds --max-ms ${options.maxMs}`);
+  process.exit(1);
+}
+
+function parseArgs(args) {
+  const get = (flag, fallback) => {
+    const idx = args.indexOf(flag);
+    return idx !== -1 && args[idx + 1] !== undefined ? Number(args[idx + 1]) : fallback;
+  };
+  return {
+    notes: get('--notes', 100000),
+    dims: get('--dims', 384),
+    queries: get('--queries', 50),
+    limit: get('--limit', 10),
+    topics: get('--topics', 200),
+    maxMs: get('--max-ms', undefined),
+    ann: args.includes('--ann'),
+    m: get('--m', 16),
+    efConstruction: get('--ef-construction', 100),
+    efSearch: get('--ef-search', 64),
+  };
+}
+
+function nearTopic() {
+  const topic = topics[Math.floor(random() * topics.length)];
+  const noise = randomVector(options.dims);
+  return topic.map((value, i) => value + 0.6 * noise[i]);
+}
+
+function randomVector(dims) {
+  const vec = new Float32Array(dims);
+  for (let i = 0; i < dims; i++) vec[i] = random() * 2 - 1;
+  return vec;
+}
+
+// Small seeded PRNG so runs are comparable
+function mulberry32(seed) {
+  return () => {
+    seed |= 0;
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function round(value) {
+  return Math.round(value * 100) / 100;
+}
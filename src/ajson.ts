@@ -0,0 +1,105 @@
+/**
+ * Streaming parser for Smart Connections' "append JSON" (.ajson) files.
+ *
+ * Each line is a single `"key": value,` pair. The file is an append log:
+ * a later line for the same key replaces the earlier one, and a `null`
+ * value deletes the key. Files are read in fixed-size chunks, so a
+ * multi-MB file is never held in memory as one string.
+ */
+
+import * as fs from 'node:fs';
+import { StringDecoder } from 'node:string_decoder';
+
+const CHUNK_SIZE = 64 * 1024;
+
+export interface AjsonParseResult {
+  records: Map<string, unknown>;
+  lines: number; // Non-empty lines seen
+  badLines: number; // Lines skipped because they were not valid JSON
+}
+
+/**
+ * Parse an .ajson file, applying overwrites and deletions in order.
+ *
+ * Corrupt lines are skipped individually and counted; they never cause
+ * the rest of the file to be dropped.
+ */
+export function parseAjson(filePath: string): AjsonParseResult {
+  const records = new Map<string, unknown>();
+  let lines = 0;
+  let badLines = 0;
+
+  for (const rawLine of readLines(filePath)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+    lines++;
+
+    const parsed = parseAjsonLine(line);
+    if (!parsed) {
+      badLines++;
+      continue;
+    }
+
+    for (const [key, value] of Object.entries(parsed)) {
+      if (value === null) {
+        records.delete(key);
+      } else {
+        records.set(key, value);
+      }
+    }
+  }
+
+  return { records, lines, badLines };
+}
+
+/**
+ * Parse one `"key": value,` line. Returns null if the line is not valid.
+ */
+function parseAjsonLine(line: string): Record<string, unknown> | null {
+  const body = line.endsWith(',') ? line.slice(0, -1) : line;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse('{' + body + '}');
+  } catch {
+    return null;
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return null;
+  }
+
+  return parsed as Record<string, unknown>;
+}
+
+/**
+ * Read a file line by line using fixed-size chunks.
+ */
+function* readLines(filePath: string): Generator<string> {
+  const fd = fs.openSync(filePath, 'r');
+  const buffer = Buffer.alloc(CHUNK_SIZE);
+  const decoder = new StringDecoder('utf8');
+  let pending = '';
+
+  try {
+    let bytesRead: number;
+    while ((bytesRead = fs.readSync(fd, buffer, 0, CHUNK_SIZE, null)) > 0) {
+      pending += decoder.write(buffer.subarray(0, bytesRead));
+
+      let start = 0;
+      let newline: number;
+      while ((newline = pending.indexOf('\n', start)) !== -1) {
+        yield pending.slice(start, newline);
+        start = newline + 1;
+      }
+      pending = pending.slice(start);
+    }
+
+    pending += decoder.end();
+    if (pending) {
+      yield pending;
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+}
@@ -0,0 +1,275 @@
+/**
+ * Topic clustering of notes.
+ *
+ * Spherical k-means (cosine) over the stored note embeddings, seeded with
+ * k-means++ from a seeded PRNG, so the same notes and seed always give the
+ * same clusters. Each cluster is labelled with the title words that set
+ * its most central notes apart from the rest.
+ *
+ * Large scopes are fitted on a seeded sample and every note is then
+ * assigned to its nearest centroid in one pass. The work runs in time
+ * slices so other requests aren't held up.
+ */
+
+import { extractTitle } from './data.js';
+import { tokenize } from './keyword.js';
+import { SearchIndex, dot, mulberry32, normalizedCopy, timeSlicer } from './vectors.js';
+
+export interface ClusterOptions {
+  k: number;
+  seed: number;
+  maxIterations?: number;
+}
+
+export interface NoteCluster {
+  label: string;
+  members: Array<{ path: string; similarity: number }>; // Closest to the centroid first
+}
+
+const DEFAULT_MAX_ITERATIONS = 50;
+
+// Centroids are fitted on at most this many notes
+const FIT_SAMPLE = 5000;
+
+// Larger scopes must be narrowed with a pattern
+export const MAX_CLUSTER_SCOPE = 50_000;
+
+// The label is drawn from the titles of this many central notes
+const LABEL_SAMPLE = 10;
+const LABEL_WORDS = 3;
+
+// Too common in titles to describe a topic
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'into', 'about', 'notes', 'note',
+  'untitled', 'new', 'draft', 'copy', 'of', 'to', 'in', 'on', 'a', 'an',
+]);
+
+/**
+ * Suggested cluster count for `n` notes (rule of thumb: sqrt(n / 2)).
+ */
+export function defaultClusterCount(n: number): number {
+  return Math.max(2, Math.min(20, Math.round(Math.sqrt(n / 2))));
+}
+
+/**
+ * Cluster notes by their embeddings. Notes without a vector in `index`
+ * are skipped. Clusters are returned largest first.
+ */
+export async function clusterNotes(
+  index: SearchIndex,
+  notePaths: string[],
+  options: ClusterOptions
+): Promise<NoteCluster[]> {
+  const pause = timeSlicer();
+
+  // Sorted input, so the result doesn't depend on map iteration order.
+  // Index rows are already normalized and are used as they are.
+  const paths: string[] = [];
+  const vectors: Float32Array[] = [];
+  for (const notePath of [...notePaths].sort()) {
+    await pause();
+    const vector = index.getVector(notePath);
+    if (vector) {
+      paths.push(notePath);
+      vectors.push(vector);
+    }
+  }
+
+  const n = paths.length;
+  const k = Math.min(options.k, n);
+  if (k === 0) return [];
+
+  const random = mulberry32(options.seed);
+  const sample = sampleVectors(vectors, FIT_SAMPLE, random);
+  const centroids = await initCentroids(sample, k, random, pause);
+  const sampleAssignment = new Int32Array(sample.length).fill(-1);
+
+  for (let iteration = 0; iteration < (options.maxIterations ?? DEFAULT_MAX_ITERATIONS); iteration++) {
+    const changed = await assign(sample, centroids, sampleAssignment, new Float32Array(sample.length), pause);
+    if (changed === 0) break;
+    updateCentroids(sample, sampleAssignment, centroids);
+  }
+
+  // Every note goes to its nearest fitted centroid
+  const assignment = new Int32Array(n).fill(-1);
+  const similarity = new Float32Array(n);
+  await assign(vectors, centroids, assignment, similarity, pause);
+
+  const groups: number[][] = Array.from({ length: k }, () => []);
+  for (let i = 0; i < n; i++) {
+    groups[assignment[i]].push(i);
+  }
+
+  // Document frequency of title words across all clustered notes
+  const titleWords = paths.map(p => titleTerms(p));
+  const documentFrequency = new Map<string, number>();
+  for (const words of titleWords) {
+    for (const word of words) {
+      documentFrequency.set(word, (documentFrequency.get(word) ?? 0) + 1);
+    }
+  }
+
+  return groups
+    .filter(group => group.length > 0)
+    .map(group => {
+      group.sort((a, b) => similarity[b] - similarity[a] || a - b);
+      return {
+        label: labelFor(group.slice(0, LABEL_SAMPLE), paths, titleWords, documentFrequency),
+        members: group.map(i => ({ path: paths[i], similarity: similarity[i] })),
+      };
+    })
+    .sort((a, b) => b.members.length - a.members.length || a.label.localeCompare(b.label));
+}
+
+/**
+ * Up to `size` of the vectors, drawn without replacement (in their
+ * original order). Smaller inputs are returned whole.
+ */
+function sampleVectors(vectors: Float32Array[], size: number, random: () => number): Float32Array[] {
+  if (vectors.length <= size) return vectors;
+
+  const indexes = Array.from({ length: vectors.length }, (_, i) => i);
+  for (let i = 0; i < size; i++) {
+    const j = i + Math.floor(random() * (indexes.length - i));
+    [indexes[i], indexes[j]] = [indexes[j], indexes[i]];
+  }
+  return indexes.slice(0, size).sort((a, b) => a - b).map(i => vectors[i]);
+}
+
+/**
+ * Assign each vector to its most similar centroid. Returns how many
+ * assignments changed.
+ */
+async function assign(
+  vectors: Float32Array[],
+  centroids: Float32Array[],
+  assignment: Int32Array,
+  similarity: Float32Array,
+  pause: () => Promise<void>
+): Promise<number> {
+  let changed = 0;
+  for (let i = 0; i < vectors.length; i++) {
+    await pause();
+    let best = 0;
+    let bestScore = -Infinity;
+    for (let c = 0; c < centroids.length; c++) {
+      const score = dot(vectors[i], centroids[c]);
+      if (score > bestScore) {
+        bestScore = score;
+        best = c;
+      }
+    }
+    if (assignment[i] !== best) changed++;
+    assignment[i] = best;
+    similarity[i] = bestScore;
+  }
+  return changed;
+}
+
+/**
+ * k-means++ seeding: each next centroid is drawn with probability
+ * proportional to its squared cosine distance from the nearest one so far.
+ */
+async function initCentroids(
+  vectors: Float32Array[],
+  k: number,
+  random: () => number,
+  pause: () => Promise<void>
+): Promise<Float32Array[]> {
+  const centroids = [Float32Array.from(vectors[Math.floor(random() * vectors.length)])];
+  const distance = new Float64Array(vectors.length).fill(Infinity);
+
+  while (centroids.length < k) {
+    await pause();
+    const last = centroids[centroids.length - 1];
+    let total = 0;
+    for (let i = 0; i < vectors.length; i++) {
+      const d = Math.max(0, 1 - dot(vectors[i], last));
+      distance[i] = Math.min(distance[i], d * d);
+      total += distance[i];
+    }
+
+    // All remaining notes coincide with a centroid: pick any
+    let next = Math.floor(random() * vectors.length);
+    if (total > 0) {
+      let target = random() * total;
+      for (let i = 0; i < vectors.length; i++) {
+        target -= distance[i];
+        if (target <= 0) {
+          next = i;
+          break;
+        }
+      }
+    }
+
+    centroids.push(Float32Array.from(vectors[next]));
+  }
+
+  return centroids;
+}
+
+/**
+ * Move each centroid to the normalized mean of its members. Centroids of
+ * empty clusters stay where they are.
+ */
+function updateCentroids(vectors: Float32Array[], assignment: Int32Array, centroids: Float32Array[]): void {
+  const sums = centroids.map(c => new Float32Array(c.length));
+  const counts = new Int32Array(centroids.length);
+
+  for (let i = 0; i < vectors.length; i++) {
+    const sum = sums[assignment[i]];
+    const vector = vectors[i];
+    for (let d = 0; d < vector.length; d++) {
+      sum[d] += vector[d];
+    }
+    counts[assignment[i]]++;
+  }
+
+  for (let c = 0; c < centroids.length; c++) {
+    if (counts[c] > 0) {
+      centroids[c] = normalizedCopy(sums[c]);
+    }
+  }
+}
+
+/**
+ * Label a cluster with the title words shared by its central notes,
+ * weighted by how rare they are across all clustered titles. Falls back
+ * to the title of the most central note.
+ */
+function labelFor(
+  sample: number[],
+  paths: string[],
+  titleWords: Set<string>[],
+  documentFrequency: Map<string, number>
+): string {
+  const counts = new Map<string, number>();
+  for (const i of sample) {
+    for (const word of titleWords[i]) {
+      counts.set(word, (counts.get(word) ?? 0) + 1);
+    }
+  }
+
+  // A word from a single title says more about that note than the topic
+  const minCount = sample.length >= 3 ? 2 : 1;
+
+  const words = [...counts.entries()]
+    .filter(([, count]) => count >= minCount)
+    .map(([word, count]) => [word, count * Math.log(1 + paths.length / documentFrequency.get(word)!)] as const)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, LABEL_WORDS)
+    .map(([word]) => word);
+
+  return words.length > 0 ? words.join(' / ') : extractTitle(paths[sample[0]]);
+}
+
+/**
+ * Descriptive words of a note title (no stopwords, numbers or dates).
+ */
+function titleTerms(notePath: string): Set<string> {
+  return new Set(
+    tokenize(extractTitle(notePath)).filter(
+      word => word.length > 2 && !STOPWORDS.has(word) && !/^[\d\-_.:/]+$/.test(word) && !/[-_.:/]/.test(word)
+    )
+  );
+}
@@ -2,17 +2,36 @@
  * Data loading module for Smart Connections embeddings.
  *
  * Reads pre-computed embeddings from Smart Connections plugin's
- * .smart-env directory. Does NOT compute new embeddings.
+ * .smart-env directory. Does NOT compute new embeddings; with LOCAL_INDEX,
+ * vectors from the fallback indexer's store (localindex.ts) are merged in.
  */
 
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import { Config, log } from './security.js';
+import { parseAjson } from './ajson.js';
+import { readSnapshot, writeSnapshot } from './snapshot.js';
+import { SearchIndex, VectorIndex } from './vectors.js';
+import { AnnIndex } from './hnsw.js';
+import { getModelProfile } from './profiles.js';
+import { LocalIndex, readLocalIndex } from './localindex.js';
 
 export interface EmbeddingEntry {
   path: string;
-  embedding: number[];
+  embedding: Float32Array;
   blocks?: Record<string, BlockInfo>;
+  source?: SourceInfo;
+  origin?: 'local'; // Embedded by the fallback indexer, not Smart Connections
+}
+
+/**
+ * File metadata Smart Connections recorded when it last read the note.
+ * Compared with the file on disk to detect stale embeddings.
+ */
+export interface SourceInfo {
+  mtime?: number; // ms since epoch
+  size?: number; // bytes
+  hash?: string; // Content hash of the text that was embedded
 }
 
 export interface BlockInfo {
@@ -21,15 +40,50 @@ export interface BlockInfo {
   lines?: [number, number];
 }
 
+export interface BlockEntry {
+  key: string; // Block key without prefix, e.g. "Topics/Note.md#Heading#Sub"
+  notePath: string; // Parent note path
+  headings: string[]; // Heading path within the parent note
+  lines?: [number, number];
+  embedding: Float32Array;
+  origin?: 'local';
+}
+
 export interface ModelInfo {
   modelKey: string;
   dimensions: number;
-  adapter: string;
+  adapter: string; // Smart Connections embed adapter, e.g. "transformers", "ollama"
+  host?: string; // Adapter endpoint from smart_env.json, if configured
 }
 
 export interface SmartConnectionsData {
-  entries: Map<string, EmbeddingEntry>;
+  entries: Map<string, EmbeddingEntry>; // Embeddings are views into noteIndex
+  blocks: Map<string, BlockEntry>; // Embeddings are views into blockIndex
+  noteIndex: SearchIndex; // Search structures over entries/blocks
+  blockIndex: SearchIndex;
   modelInfo: ModelInfo;
+  files: Map<string, AjsonFileState>; // Keyed by file name within multi/
+  local: LocalIndex | null; // Fallback indexer's vectors, if LOCAL_INDEX is on
+  excluded: string[]; // Note/block keys whose vector length disagrees with modelInfo.dimensions
+}
+
+/**
+ * Parsed contents of a single .ajson file.
+ * Kept per file so that a change only requires re-parsing that file.
+ */
+export interface AjsonFileState {
+  mtimeMs: number;
+  size: number;
+  entries: Map<string, EmbeddingEntry>;
+  blocks: Map<string, BlockEntry>;
+  badLines: number; // Corrupt lines skipped while parsing
+}
+
+export interface ReloadStats {
+  added: number;
+  removed: number;
+  updated: number;
+  filesParsed: number;
 }
 
 /**
@@ -39,20 +93,245 @@ export function loadSmartConnectionsData(config: Config): SmartConnectionsData {
   const smartEnvPath = path.join(config.resolvedVaultPath, '.smart-env');
 
   // Load model info from smart_env.json
-  const modelInfo = loadModelInfo(smartEnvPath);
-  log('INFO', 'model_loaded', { modelKey: modelInfo.modelKey, dimensions: modelInfo.dimensions });
+  const modelConfig = loadModelInfo(smartEnvPath);
+
+  // Load embeddings from multi/*.ajson files, reusing the snapshot cache
+  // for files that have not changed since it was written
+  const cached = readSnapshot(config, modelConfig.modelKey);
+  const { files, filesParsed } = loadEmbeddings(smartEnvPath, modelConfig.modelKey, cached);
+  log('INFO', 'ajson_files_loaded', {
+    files: files.size,
+    parsed: filesParsed,
+    fromSnapshot: files.size - filesParsed,
+  });
+
+  if (!cached || filesParsed > 0 || cached.size !== files.size) {
+    writeSnapshot(config, modelConfig.modelKey, files);
+  }
 
-  // Load embeddings from multi/*.ajson files
-  const entries = loadEmbeddings(smartEnvPath, modelInfo.modelKey);
-  log('INFO', 'embeddings_loaded', { count: entries.size });
+  // The stored vectors are the source of truth for dimensions; the
+  // model profile only applies to an empty index
+  const inferred = inferDimensions(files);
+  const modelInfo: ModelInfo = {
+    ...modelConfig,
+    dimensions: inferred ?? getModelProfile(modelConfig.modelKey).dimensions,
+  };
+  log('INFO', 'model_loaded', {
+    modelKey: modelInfo.modelKey,
+    dimensions: modelInfo.dimensions,
+    dimensionsSource: inferred ? 'vectors' : 'profile',
+    adapter: modelInfo.adapter,
+  });
+
+  const local = config.localIndex.enabled ? readLocalIndex(config, modelInfo.modelKey) : null;
+  const { entries, blocks, excluded } = mergeFiles(files, modelInfo.dimensions, local);
+
+  if (excluded.length > 0) {
+    log('WARN', 'embeddings_dimension_mismatch', {
+      expected: modelInfo.dimensions,
+      excluded: excluded.length,
+      sample: excluded.slice(0, 5),
+    });
+  }
+
+  let badLines = 0;
+  for (const file of files.values()) {
+    badLines += file.badLines;
+  }
+  log('INFO', 'embeddings_loaded', {
+    count: entries.size,
+    blocks: blocks.size,
+    badLines,
+    ...(local && { localNotes: local.notes.size }),
+  });
 
-  return { entries, modelInfo };
+  return {
+    ...buildIndexes(config, entries, blocks, modelInfo.dimensions),
+    modelInfo,
+    files,
+    local,
+    excluded,
+  };
+}
+
+/**
+ * Re-parse only the given .ajson files and return a new data object.
+ *
+ * The previous data object is never mutated, so searches already running
+ * against it finish with a consistent view. Files that no longer exist are
+ * dropped; files whose mtime and size are unchanged are not re-read.
+ * The snapshot is not rewritten; the caller saves it once reloads settle.
+ */
+export function reloadChangedFiles(
+  config: Config,
+  previous: SmartConnectionsData,
+  fileNames: Iterable<string>
+): { data: SmartConnectionsData; stats: ReloadStats } {
+  const multiPath = path.join(config.resolvedVaultPath, '.smart-env', 'multi');
+  const files = new Map(previous.files);
+  let filesParsed = 0;
+
+  for (const file of fileNames) {
+    // SECURITY: Only plain file names inside multi/ are accepted
+    if (!file.endsWith('.ajson') || path.basename(file) !== file) continue;
+
+    const filePath = path.join(multiPath, file);
+    let stats: fs.Stats;
+    try {
+      stats = fs.statSync(filePath);
+    } catch {
+      files.delete(file);
+      continue;
+    }
+
+    const existing = files.get(file);
+    if (existing && existing.mtimeMs === stats.mtimeMs && existing.size === stats.size) {
+      continue;
+    }
+
+    try {
+      files.set(file, parseAjsonFile(filePath, previous.modelInfo.modelKey));
+      filesParsed++;
+    } catch (e) {
+      // Keep the last good state for this file
+      log('WARN', 'ajson_parse_error', { file, error: String(e) });
+    }
+  }
+
+  const { entries, blocks, excluded } = mergeFiles(files, previous.modelInfo.dimensions, previous.local);
+  const data: SmartConnectionsData = {
+    ...buildIndexes(config, entries, blocks, previous.modelInfo.dimensions),
+    modelInfo: previous.modelInfo,
+    files,
+    local: previous.local,
+    excluded,
+  };
+
+  return { data, stats: { ...diffEntries(previous.entries, data.entries), filesParsed } };
+}
+
+/**
+ * Return a new data object serving the given fallback index in place of
+ * the previous one. Like reloadChangedFiles, `previous` is not mutated.
+ */
+export function replaceLocalIndex(
+  config: Config,
+  previous: SmartConnectionsData,
+  local: LocalIndex
+): SmartConnectionsData {
+  const { entries, blocks, excluded } = mergeFiles(previous.files, previous.modelInfo.dimensions, local);
+  return {
+    ...buildIndexes(config, entries, blocks, previous.modelInfo.dimensions),
+    modelInfo: previous.modelInfo,
+    files: previous.files,
+    local,
+    excluded,
+  };
+}
+
+/**
+ * Build the vector indexes used by the search layer, and the served
+ * entries and blocks.
+ *
+ * With ANN enabled, large indexes get an HNSW graph built in the
+ * background; the exact index answers until it is ready.
+ */
+function buildIndexes(
+  config: Config,
+  entries: Map<string, EmbeddingEntry>,
+  blocks: Map<string, BlockEntry>,
+  dimensions: number
+): Pick<SmartConnectionsData, 'entries' | 'blocks' | 'noteIndex' | 'blockIndex'> {
+  const noteIndex = VectorIndex.build(entries, dimensions);
+  const blockIndex = VectorIndex.build(blocks, dimensions);
+  const served = {
+    entries: viewsInto(noteIndex, entries),
+    blocks: viewsInto(blockIndex, blocks),
+  };
+
+  if (!config.ann.enabled) {
+    return { ...served, noteIndex, blockIndex };
+  }
+
+  return {
+    ...served,
+    noteIndex: new AnnIndex(noteIndex, config.ann, 'notes'),
+    blockIndex: new AnnIndex(blockIndex, config.ann, 'blocks'),
+  };
+}
+
+// Served entry or block -> the parsed one it was copied from
+const storedItems = new WeakMap<object, object>();
+
+/**
+ * Copies of the given entries or blocks whose embedding is their row in
+ * the index, so the served data holds no vectors of its own. The parsed
+ * objects (in `files` and the local index) keep the stored vectors.
+ */
+function viewsInto<T extends { embedding: Float32Array }>(index: VectorIndex, items: Map<string, T>): Map<string, T> {
+  const views = new Map<string, T>();
+  for (const [key, item] of items) {
+    const view = { ...item, embedding: index.getVector(key) ?? item.embedding };
+    storedItems.set(view, item);
+    views.set(key, view);
+  }
+  return views;
+}
+
+/**
+ * Whether two served entries were copied from the same parsed entry, i.e.
+ * the note's embedding was not reloaded in between.
+ */
+export function sameEntry(a: EmbeddingEntry | undefined, b: EmbeddingEntry | undefined): boolean {
+  const stored = (entry: EmbeddingEntry | undefined) => entry && (storedItems.get(entry) ?? entry);
+  return stored(a) === stored(b);
+}
+
+/**
+ * Release a data object that is no longer served (stops background
+ * index builds). Searches already running against it still complete.
+ */
+export function disposeData(data: SmartConnectionsData): void {
+  data.noteIndex.dispose();
+  data.blockIndex.dispose();
+}
+
+/**
+ * Count notes added, removed and updated between two entry maps.
+ *
+ * Entries from files that were not re-parsed are copied from the same
+ * parsed objects, so sameEntry tells us whether an entry was updated.
+ */
+export function diffEntries(
+  before: Map<string, EmbeddingEntry>,
+  after: Map<string, EmbeddingEntry>
+): Omit<ReloadStats, 'filesParsed'> {
+  let added = 0;
+  let removed = 0;
+  let updated = 0;
+
+  for (const [key, entry] of after) {
+    const old = before.get(key);
+    if (!old) {
+      added++;
+    } else if (!sameEntry(old, entry)) {
+      updated++;
+    }
+  }
+
+  for (const key of before.keys()) {
+    if (!after.has(key)) {
+      removed++;
+    }
+  }
+
+  return { added, removed, updated };
 }
 
 /**
  * Load model configuration from smart_env.json
  */
-function loadModelInfo(smartEnvPath: string): ModelInfo {
+function loadModelInfo(smartEnvPath: string): Omit<ModelInfo, 'dimensions'> {
   const configPath = path.join(smartEnvPath, 'smart_env.json');
 
   if (!fs.existsSync(configPath)) {
@@ -67,164 +346,370 @@ function loadModelInfo(smartEnvPath: string): ModelInfo {
     throw new Error(`Failed to parse smart_env.json: ${e}`);
   }
 
-  // Navigate to model key - handle nested structure
-  const modelKey = extractModelKey(config);
-  if (!modelKey) {
+  // Navigate to adapter and model key - handle nested structure
+  const modelConfig = extractModelConfig(config);
+  if (!modelConfig) {
     throw new Error('Could not determine embedding model from smart_env.json');
   }
 
-  // Determine dimensions based on known models
-  const dimensions = getModelDimensions(modelKey);
-
-  return {
-    modelKey,
-    dimensions,
-    adapter: 'transformers',
-  };
+  return modelConfig;
 }
 
+// Adapters Smart Connections supports, in the order we probe them when
+// smart_env.json does not name one explicitly
+const KNOWN_ADAPTERS = [
+  'transformers',
+  'ollama',
+  'openai',
+  'lm_studio',
+  'gemini',
+  'cohere',
+  'voyage',
+  'open_router',
+];
+
 /**
- * Extract model key from smart_env.json config structure.
+ * Extract adapter and model key from smart_env.json config structure.
+ *
+ * Smart Connections stores the active adapter name in
+ * smart_sources.embed_model.adapter, and per-adapter settings under
+ * smart_sources.embed_model.<adapter> (e.g. .ollama.model_key).
  */
-function extractModelKey(config: unknown): string | null {
+function extractModelConfig(
+  config: unknown
+): Omit<ModelInfo, 'dimensions'> | null {
   if (!config || typeof config !== 'object') return null;
 
   const c = config as Record<string, unknown>;
 
-  // Try smart_sources.embed_model.transformers.model_key
   const smartSources = c.smart_sources as Record<string, unknown> | undefined;
-  if (smartSources?.embed_model) {
-    const embedModel = smartSources.embed_model as Record<string, unknown>;
-    if (embedModel.transformers) {
-      const transformers = embedModel.transformers as Record<string, unknown>;
-      if (typeof transformers.model_key === 'string') {
-        return transformers.model_key;
-      }
-    }
-  }
+  const embedModel = smartSources?.embed_model;
+  if (!embedModel || typeof embedModel !== 'object') return null;
 
-  return null;
-}
+  const em = embedModel as Record<string, unknown>;
 
-/**
- * Get embedding dimensions for known models.
- */
-function getModelDimensions(modelKey: string): number {
-  const knownModels: Record<string, number> = {
-    'TaylorAI/bge-micro-v2': 384,
-    'sentence-transformers/all-MiniLM-L6-v2': 384,
-    'BAAI/bge-small-en-v1.5': 384,
-    'BAAI/bge-base-en-v1.5': 768,
-    'BAAI/bge-large-en-v1.5': 1024,
-  };
+  // Prefer the explicitly configured adapter
+  const candidates = typeof em.adapter === 'string'
+    ? [em.adapter, ...KNOWN_ADAPTERS.filter(a => a !== em.adapter)]
+    : KNOWN_ADAPTERS;
+
+  for (const adapter of candidates) {
+    const settings = em[adapter];
+    if (!settings || typeof settings !== 'object') continue;
+
+    const s = settings as Record<string, unknown>;
+    if (typeof s.model_key !== 'string' || !s.model_key) continue;
 
-  const dimensions = knownModels[modelKey];
-  if (dimensions) {
-    return dimensions;
+    // SECURITY: Only the endpoint is kept; API keys are never read
+    const host = typeof s.host === 'string' ? s.host : undefined;
+
+    return {
+      adapter,
+      modelKey: s.model_key,
+      ...(host && { host }),
+    };
+  }
+
+  // Older configs: smart_sources.embed_model.model_key (transformers)
+  if (typeof em.model_key === 'string' && em.model_key) {
+    return { adapter: 'transformers', modelKey: em.model_key };
   }
 
-  // Default to 384 (most common for small models)
-  log('WARN', 'unknown_model_dimensions', { modelKey, defaulting: 384 });
-  return 384;
+  return null;
 }
 
 /**
  * Load embeddings from .ajson files in the multi/ directory.
+ *
+ * Files whose mtime and size match the snapshot are taken from it;
+ * everything else is parsed.
  */
-function loadEmbeddings(smartEnvPath: string, modelKey: string): Map<string, EmbeddingEntry> {
+function loadEmbeddings(
+  smartEnvPath: string,
+  modelKey: string,
+  cached: Map<string, AjsonFileState> | null
+): { files: Map<string, AjsonFileState>; filesParsed: number } {
   const multiPath = path.join(smartEnvPath, 'multi');
-  const entries = new Map<string, EmbeddingEntry>();
+  const files = new Map<string, AjsonFileState>();
+  let filesParsed = 0;
 
   if (!fs.existsSync(multiPath)) {
     log('WARN', 'no_multi_directory', { path: multiPath });
-    return entries;
+    return { files, filesParsed };
   }
 
-  const files = fs.readdirSync(multiPath).filter(f => f.endsWith('.ajson'));
+  const fileNames = fs.readdirSync(multiPath).filter(f => f.endsWith('.ajson'));
 
-  for (const file of files) {
+  for (const file of fileNames) {
     const filePath = path.join(multiPath, file);
     try {
-      const fileEntries = parseAjsonFile(filePath, modelKey);
-      for (const [key, entry] of fileEntries) {
-        entries.set(key, entry);
+      const snapshot = cached?.get(file);
+      if (snapshot) {
+        const stats = fs.statSync(filePath);
+        if (snapshot.mtimeMs === stats.mtimeMs && snapshot.size === stats.size) {
+          files.set(file, snapshot);
+          continue;
+        }
       }
+
+      files.set(file, parseAjsonFile(filePath, modelKey));
+      filesParsed++;
     } catch (e) {
       log('WARN', 'ajson_parse_error', { file, error: String(e) });
       // Continue with other files
     }
   }
 
-  return entries;
+  return { files, filesParsed };
 }
 
 /**
- * Parse a single .ajson file.
+ * Infer embedding dimensions from the loaded vectors (majority length).
+ * Returns null if there are no vectors.
+ */
+function inferDimensions(files: Map<string, AjsonFileState>): number | null {
+  const counts = new Map<number, number>();
+
+  for (const file of files.values()) {
+    for (const entry of file.entries.values()) {
+      counts.set(entry.embedding.length, (counts.get(entry.embedding.length) ?? 0) + 1);
+    }
+    for (const block of file.blocks.values()) {
+      counts.set(block.embedding.length, (counts.get(block.embedding.length) ?? 0) + 1);
+    }
+  }
+
+  let best: number | null = null;
+  let bestCount = 0;
+  for (const [length, count] of counts) {
+    if (length > 0 && count > bestCount) {
+      best = length;
+      bestCount = count;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Merge per-file entries into the flat maps used for search.
+ * Files are applied in name order so the result is deterministic.
  *
- * Smart Connections uses an "append JSON" format where each file contains
- * entries like: "key": {value}, one per line. We wrap in braces and parse
- * as a single JSON object.
+ * Vectors whose length differs from `dimensions` are left out (and
+ * reported), so search never compares vectors of different sizes.
+ *
+ * Notes in the fallback index replace Smart Connections' entry and
+ * blocks for the note: the indexer only keeps notes Smart Connections
+ * has no current vectors for.
  */
-function parseAjsonFile(filePath: string, modelKey: string): Map<string, EmbeddingEntry> {
+function mergeFiles(files: Map<string, AjsonFileState>, dimensions: number, local: LocalIndex | null): {
+  entries: Map<string, EmbeddingEntry>;
+  blocks: Map<string, BlockEntry>;
+  excluded: string[];
+} {
   const entries = new Map<string, EmbeddingEntry>();
-  const content = fs.readFileSync(filePath, 'utf-8').trim();
+  const blocks = new Map<string, BlockEntry>();
+  const excluded: string[] = [];
+
+  const names = [...files.keys()].sort();
+  for (const name of names) {
+    const file = files.get(name)!;
+    for (const [key, entry] of file.entries) {
+      if (entry.embedding.length !== dimensions) {
+        excluded.push(key);
+        continue;
+      }
+      entries.set(key, entry);
+    }
+    for (const [key, block] of file.blocks) {
+      if (block.embedding.length !== dimensions) {
+        excluded.push(key);
+        continue;
+      }
+      blocks.set(key, block);
+    }
+  }
+
+  if (local && local.notes.size > 0) {
+    for (const [key, block] of blocks) {
+      if (local.notes.has(block.notePath)) blocks.delete(key);
+    }
+    for (const [notePath, note] of local.notes) {
+      if (note.entry.embedding.length !== dimensions) {
+        excluded.push(notePath);
+        continue;
+      }
+      entries.set(notePath, note.entry);
+      for (const block of note.blocks) {
+        if (block.embedding.length !== dimensions) {
+          excluded.push(block.key);
+          continue;
+        }
+        blocks.set(block.key, block);
+      }
+    }
+  }
 
-  if (!content) return entries;
+  return { entries, blocks, excluded };
+}
 
-  // The file content is a series of "key": {...}, entries
-  // Wrap in braces to make it valid JSON, removing trailing comma
-  let jsonContent = content;
+/**
+ * Fill in missing block line ranges from the parent note's block map.
+ *
+ * Older Smart Connections versions only record `lines` on the source
+ * entry (keyed by the block suffix, e.g. "#Heading#Sub"), not on the block.
+ * Sources and their blocks are written to the same .ajson file, so this
+ * runs per file.
+ */
+function resolveBlockLines(
+  entries: Map<string, EmbeddingEntry>,
+  blocks: Map<string, BlockEntry>
+): void {
+  for (const block of blocks.values()) {
+    if (block.lines) continue;
+
+    const parentBlocks = entries.get(block.notePath)?.blocks;
+    if (!parentBlocks) continue;
+
+    const info = parentBlocks[block.key.slice(block.notePath.length)];
+    const lines = parseLines(Array.isArray(info) ? info : info?.lines);
+    if (lines) {
+      block.lines = lines;
+    }
+  }
+}
 
-  // Remove trailing comma if present (before we wrap)
-  if (jsonContent.endsWith(',')) {
-    jsonContent = jsonContent.slice(0, -1);
+/**
+ * Parse a single .ajson file.
+ *
+ * Smart Connections uses an "append JSON" format where each line is a
+ * "key": {value}, entry. See ajson.ts for the append-log semantics.
+ */
+function parseAjsonFile(filePath: string, modelKey: string): AjsonFileState {
+  const entries = new Map<string, EmbeddingEntry>();
+  const blocks = new Map<string, BlockEntry>();
+
+  // Stat before reading: if the file changes mid-read, the next watch
+  // event sees a newer mtime and parses it again
+  const { mtimeMs, size } = fs.statSync(filePath);
+  const { records, badLines } = parseAjson(filePath);
+  if (badLines > 0) {
+    log('WARN', 'ajson_lines_skipped', {
+      file: path.basename(filePath),
+      badLines,
+    });
   }
 
-  // Wrap in braces to create valid JSON object
-  const wrappedContent = '{' + jsonContent + '}';
+  // Iterate over all live records (overwrites and deletions already applied)
+  for (const [fullKey, value] of records) {
+    // smart_sources are file-level, smart_blocks are sections within a file
+    let key: string;
+    if (fullKey.startsWith('smart_sources:')) {
+      key = fullKey.slice('smart_sources:'.length);
+    } else if (fullKey.startsWith('smart_blocks:')) {
+      key = fullKey.slice('smart_blocks:'.length);
+    } else {
+      continue;
+    }
 
-  let parsed: Record<string, unknown>;
-  try {
-    parsed = JSON.parse(wrappedContent);
-  } catch (e) {
-    // If parsing fails, log and return empty
-    log('WARN', 'ajson_json_parse_failed', {
-      file: path.basename(filePath),
-      error: String(e).slice(0, 100)
+    if (!value || typeof value !== 'object') continue;
+    const data = value as Record<string, unknown>;
+
+    const embedding = extractVector(data, modelKey);
+    if (!embedding) continue;
+
+    // Anything with # in the key is a block (some versions store blocks
+    // under smart_sources too)
+    const hashIdx = key.indexOf('#');
+    if (hashIdx !== -1) {
+      const notePath = key.slice(0, hashIdx);
+      blocks.set(key, {
+        key,
+        notePath,
+        headings: parseHeadingPath(key.slice(hashIdx)),
+        lines: parseLines(data.lines),
+        embedding,
+      });
+      continue;
+    }
+
+    // Extract block info if present
+    const blockInfo = data.blocks as Record<string, BlockInfo> | undefined;
+    const source = parseSourceInfo(data);
+
+    entries.set(key, {
+      path: key,
+      embedding,
+      blocks: blockInfo,
+      ...(source && { source }),
     });
-    return entries;
   }
 
-  // Iterate over all entries in the parsed object
-  for (const [fullKey, value] of Object.entries(parsed)) {
-    // Only process smart_sources entries (file-level), skip smart_blocks
-    if (!fullKey.startsWith('smart_sources:')) continue;
+  resolveBlockLines(entries, blocks);
 
-    const notePath = fullKey.replace(/^smart_sources:/, '');
+  return { mtimeMs, size, entries, blocks, badLines };
+}
 
-    // Skip if it's actually a block (has # in path)
-    if (notePath.includes('#')) continue;
+/**
+ * Extract the embedding vector for the given model from an ajson value.
+ */
+function extractVector(data: Record<string, unknown>, modelKey: string): Float32Array | null {
+  const embeddings = data.embeddings as Record<string, { vec?: number[] }> | undefined;
+  if (!embeddings) return null;
 
-    const data = value as Record<string, unknown>;
+  const modelData = embeddings[modelKey];
+  if (!modelData?.vec || !Array.isArray(modelData.vec)) return null;
 
-    // Extract embedding vector
-    const embeddings = data.embeddings as Record<string, { vec?: number[] }> | undefined;
-    if (!embeddings) continue;
+  // Float32 halves memory compared with number[] and matches the snapshot format
+  return Float32Array.from(modelData.vec);
+}
 
-    const modelData = embeddings[modelKey];
-    if (!modelData?.vec || !Array.isArray(modelData.vec)) continue;
+/**
+ * Extract the file metadata recorded for a source, if any.
+ *
+ * The hash of the last embedded content is preferred over the last read,
+ * since it describes the text the stored vector was computed from.
+ */
+function parseSourceInfo(data: Record<string, unknown>): SourceInfo | undefined {
+  const source: SourceInfo = {};
 
-    // Extract block info if present
-    const blocks = data.blocks as Record<string, BlockInfo> | undefined;
+  if (typeof data.mtime === 'number') source.mtime = data.mtime;
+  if (typeof data.size === 'number') source.size = data.size;
 
-    entries.set(notePath, {
-      path: notePath,
-      embedding: modelData.vec,
-      blocks,
-    });
-  }
+  const lastEmbed = data.last_embed as { hash?: unknown } | undefined;
+  const lastRead = data.last_read as { hash?: unknown } | undefined;
+  const hash = lastEmbed?.hash ?? lastRead?.hash ?? data.hash;
+  if (typeof hash === 'string' && hash) source.hash = hash;
+
+  return Object.keys(source).length > 0 ? source : undefined;
+}
 
-  return entries;
+/**
+ * Split a block suffix ("#Heading#Sub#{2}") into its heading path.
+ *
+ * Smart Connections appends "{n}" segments to number paragraphs under the
+ * same heading; those are positions, not headings, so they are dropped.
+ */
+function parseHeadingPath(suffix: string): string[] {
+  return suffix
+    .split('#')
+    .map(part => part.trim())
+    .filter(part => part.length > 0 && !/^\{\d+\}$/.test(part));
+}
+
+/**
+ * Validate a [start, end] line range.
+ */
+function parseLines(value: unknown): [number, number] | undefined {
+  if (
+    Array.isArray(value) &&
+    value.length === 2 &&
+    Number.isInteger(value[0]) &&
+    Number.isInteger(value[1])
+  ) {
+    return [value[0], value[1]];
+  }
+  return undefined;
 }
 
 /**
@@ -0,0 +1,327 @@
+/**
+ * Near-duplicate note detection.
+ *
+ * Finds note pairs whose embeddings are at least `threshold` similar and
+ * groups them into duplicate sets with union-find. Small scopes compare
+ * every pair; larger ones use random-hyperplane LSH (SimHash) to only
+ * compare notes that share a hash bucket, avoiding an O(n^2) scan.
+ *
+ * Both run in time slices so other requests aren't held up, and the
+ * number of pairs kept is bounded: past MAX_PAIRS, only the closest pairs
+ * are kept and the threshold rises accordingly.
+ */
+
+import * as fs from 'node:fs';
+import { Config, validateNotePath } from './security.js';
+import { SearchIndex, dot, mulberry32, timeSlicer } from './vectors.js';
+
+export interface DuplicatePair {
+  a: string;
+  b: string;
+  score: number;
+}
+
+export interface DuplicateSet {
+  notes: string[];
+  pairs: DuplicatePair[]; // Best first
+  maxScore: number;
+}
+
+export interface DuplicateSearch {
+  sets: DuplicateSet[];
+  threshold: number; // Raised above the requested one if too many pairs matched
+  truncated: boolean; // Pairs were dropped (pair cap or oversized LSH buckets)
+}
+
+// Larger scopes must be narrowed with a pattern
+export const MAX_DUPLICATE_SCOPE = 50_000;
+
+// Up to this many notes, every pair is compared exactly
+const EXACT_MAX_NOTES = 2000;
+
+// LSH shape: a pair is a candidate if all bits agree in any one table.
+// With mean-centred vectors, pairs at cosine 0.95 collide in ~99% of
+// cases and pairs at 0.9 in ~90%, while unrelated pairs (cosine ~0)
+// collide in ~0.1%.
+const LSH_TABLES = 20;
+const LSH_BITS = 14;
+const LSH_SEED = 0xd0b1e;
+
+// A bucket this full holds a crowd of loosely related notes rather than
+// duplicates; comparing all of its pairs would be quadratic again
+const MAX_BUCKET_SIZE = 256;
+
+// Pairs kept before the weakest half is dropped
+const MAX_PAIRS = 100_000;
+
+// Line-level diffs are quadratic; larger pairs use line multiset overlap
+const MAX_DIFF_CELLS = 4_000_000;
+
+// Text verification reads both notes of each pair; bounded per request,
+// and larger notes are not compared
+export const MAX_TEXT_PAIRS = 100;
+const MAX_TEXT_BYTES = 200_000;
+
+type IndexPair = { i: number; j: number; score: number };
+
+/**
+ * Find duplicate sets among the given notes, most similar first.
+ */
+export async function findDuplicates(
+  index: SearchIndex,
+  notePaths: string[],
+  threshold: number
+): Promise<DuplicateSearch> {
+  const pause = timeSlicer();
+
+  const paths: string[] = [];
+  const vectors: Float32Array[] = [];
+  for (const notePath of [...notePaths].sort()) {
+    await pause();
+    const vector = index.getVector(notePath);
+    if (vector) {
+      paths.push(notePath);
+      vectors.push(vector); // Index rows are already normalized
+    }
+  }
+
+  let pairs: IndexPair[] = [];
+  let minScore = threshold;
+  let truncated = false;
+  const check = (i: number, j: number) => {
+    const score = dot(vectors[i], vectors[j]);
+    if (score < minScore) return;
+
+    pairs.push({ i, j, score });
+    if (pairs.length >= MAX_PAIRS) {
+      // Keep the closest half; later pairs must beat the weakest of them
+      pairs.sort((x, y) => y.score - x.score);
+      pairs = pairs.slice(0, MAX_PAIRS / 2);
+      minScore = Math.max(minScore, pairs[pairs.length - 1].score);
+      truncated = true;
+    }
+  };
+
+  if (paths.length <= EXACT_MAX_NOTES) {
+    for (let i = 0; i < paths.length; i++) {
+      await pause();
+      for (let j = i + 1; j < paths.length; j++) {
+        check(i, j);
+      }
+    }
+  } else {
+    const { signatures, tables } = await lshTables(vectors, pause);
+    const oversized = (t: number, signature: number) => tables[t].get(signature)!.length > MAX_BUCKET_SIZE;
+
+    for (let t = 0; t < LSH_TABLES; t++) {
+      for (const [signature, bucket] of tables[t]) {
+        if (bucket.length < 2) continue;
+        if (oversized(t, signature)) {
+          truncated = true;
+          continue;
+        }
+
+        await pause();
+        for (let x = 0; x < bucket.length; x++) {
+          for (let y = x + 1; y < bucket.length; y++) {
+            const i = bucket[x];
+            const j = bucket[y];
+            // Each pair is compared in the first table it shares a bucket in
+            let earlier = false;
+            for (let u = 0; u < t && !earlier; u++) {
+              const s = signatures[i * LSH_TABLES + u];
+              earlier = s === signatures[j * LSH_TABLES + u] && !oversized(u, s);
+            }
+            if (!earlier) check(i, j);
+          }
+        }
+      }
+    }
+  }
+
+  return {
+    sets: groupPairs(paths, pairs.filter(pair => pair.score >= minScore)),
+    threshold: minScore,
+    truncated,
+  };
+}
+
+/**
+ * Hash vectors into LSH tables. Returns each vector's signature per table
+ * (row-major) and, per table, the vector indexes (ascending) by signature.
+ */
+async function lshTables(
+  vectors: Float32Array[],
+  pause: () => Promise<void>
+): Promise<{ signatures: Uint32Array; tables: Array<Map<number, number[]>> }> {
+  const dimensions = vectors[0].length;
+
+  // Centre the vectors: embeddings share a common direction, which would
+  // otherwise make unrelated notes collide
+  const mean = new Float32Array(dimensions);
+  for (const vector of vectors) {
+    await pause();
+    for (let d = 0; d < dimensions; d++) mean[d] += vector[d] / vectors.length;
+  }
+
+  const planes = randomPlanes(LSH_TABLES * LSH_BITS, dimensions);
+  const signatures = new Uint32Array(vectors.length * LSH_TABLES);
+  const tables = Array.from({ length: LSH_TABLES }, () => new Map<number, number[]>());
+  const centred = new Float32Array(dimensions);
+
+  for (let i = 0; i < vectors.length; i++) {
+    await pause();
+    for (let d = 0; d < dimensions; d++) centred[d] = vectors[i][d] - mean[d];
+
+    for (let t = 0; t < LSH_TABLES; t++) {
+      let signature = 0;
+      for (let b = 0; b < LSH_BITS; b++) {
+        const plane = planes[t * LSH_BITS + b];
+        let side = 0;
+        for (let d = 0; d < dimensions; d++) side += centred[d] * plane[d];
+        if (side >= 0) signature |= 1 << b;
+      }
+
+      signatures[i * LSH_TABLES + t] = signature;
+      const bucket = tables[t].get(signature);
+      if (bucket) {
+        bucket.push(i);
+      } else {
+        tables[t].set(signature, [i]);
+      }
+    }
+  }
+
+  return { signatures, tables };
+}
+
+/**
+ * Seeded Gaussian random hyperplanes (Box-Muller).
+ */
+function randomPlanes(count: number, dimensions: number): Float32Array[] {
+  const random = mulberry32(LSH_SEED);
+  const gaussian = () => Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+  return Array.from({ length: count }, () => Float32Array.from({ length: dimensions }, gaussian));
+}
+
+/**
+ * Union-find the pairs into sets.
+ */
+function groupPairs(paths: string[], pairs: IndexPair[]): DuplicateSet[] {
+  const parent = new Int32Array(paths.length).map((_, i) => i);
+  const find = (x: number): number => {
+    while (parent[x] !== x) {
+      parent[x] = parent[parent[x]]; // Path halving
+      x = parent[x];
+    }
+    return x;
+  };
+
+  for (const { i, j } of pairs) {
+    const rootI = find(i);
+    const rootJ = find(j);
+    if (rootI !== rootJ) parent[Math.max(rootI, rootJ)] = Math.min(rootI, rootJ);
+  }
+
+  const sets = new Map<number, { members: Set<number>; pairs: DuplicatePair[] }>();
+  for (const { i, j, score } of pairs) {
+    const root = find(i);
+    let set = sets.get(root);
+    if (!set) {
+      set = { members: new Set(), pairs: [] };
+      sets.set(root, set);
+    }
+    set.members.add(i).add(j);
+    set.pairs.push({ a: paths[i], b: paths[j], score });
+  }
+
+  return [...sets.values()]
+    .map(({ members, pairs: setPairs }) => {
+      setPairs.sort((x, y) => y.score - x.score || x.a.localeCompare(y.a) || x.b.localeCompare(y.b));
+      return {
+        notes: [...members].sort((x, y) => x - y).map(i => paths[i]),
+        pairs: setPairs,
+        maxScore: setPairs[0].score,
+      };
+    })
+    .sort((x, y) => y.maxScore - x.maxScore || x.notes[0].localeCompare(y.notes[0]));
+}
+
+/**
+ * Text similarity of two notes (0-1), like difflib's ratio over lines:
+ * 2 * matching lines / total lines. Returns undefined if either note
+ * can't be read or is over MAX_TEXT_BYTES.
+ *
+ * @param pause - Time slicer shared by the request (see timeSlicer)
+ */
+export async function textSimilarity(
+  config: Config,
+  a: string,
+  b: string,
+  pause: () => Promise<void>
+): Promise<number | undefined> {
+  const linesA = readLines(config, a);
+  const linesB = readLines(config, b);
+  if (!linesA || !linesB) return undefined;
+
+  const total = linesA.length + linesB.length;
+  if (total === 0) return 1;
+
+  const matches = linesA.length * linesB.length <= MAX_DIFF_CELLS
+    ? await longestCommonSubsequence(linesA, linesB, pause)
+    : multisetOverlap(linesA, linesB);
+
+  return (2 * matches) / total;
+}
+
+/**
+ * Non-empty, trimmed lines of a note.
+ */
+function readLines(config: Config, notePath: string): string[] | null {
+  // SECURITY: All reads go through path validation
+  const validation = validateNotePath(config, notePath);
+  if (!validation.valid) return null;
+
+  try {
+    if (fs.statSync(validation.resolvedPath!).size > MAX_TEXT_BYTES) return null;
+    return fs
+      .readFileSync(validation.resolvedPath!, 'utf-8')
+      .split(/\r?\n/)
+      .map(line => line.trim())
+      .filter(line => line.length > 0);
+  } catch {
+    return null;
+  }
+}
+
+async function longestCommonSubsequence(a: string[], b: string[], pause: () => Promise<void>): Promise<number> {
+  let previous = new Int32Array(b.length + 1);
+  let current = new Int32Array(b.length + 1);
+
+  for (let i = 1; i <= a.length; i++) {
+    await pause();
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = a[i - 1] === b[j - 1]
+        ? previous[j - 1] + 1
+        : Math.max(previous[j], current[j - 1]);
+    }
+    [previous, current] = [current, previous];
+  }
+
+  return previous[b.length];
+}
+
+function multisetOverlap(a: string[], b: string[]): number {
+  const counts = new Map<string, number>();
+  for (const line of a) counts.set(line, (counts.get(line) ?? 0) + 1);
+
+  let matches = 0;
+  for (const line of b) {
+    const count = counts.get(line) ?? 0;
+    if (count > 0) {
+      matches++;
+      counts.set(line, count - 1);
+    }
+  }
+  return matches;
+}
@@ -2,44 +2,102 @@
  * Embeddings module for computing text embeddings.
  *
  * Uses Transformers.js to run the same model Smart Connections uses
- * (TaylorAI/bge-micro-v2) locally. This enables text-based semantic search
- * without requiring a starting note.
+ * (TaylorAI/bge-micro-v2 by default) locally, embedding queries the way
+ * the model's profile says (see profiles.ts). This enables text-based semantic search
+ * without requiring a starting note. Vaults embedded through Smart
+ * Connections' Ollama adapter are served by an Ollama-compatible HTTP
+ * endpoint instead.
  *
- * Design note: This module is structured to support both:
+ * Embedders serve both:
  * - Query-time embedding (search_by_text tool)
- * - Future index-time embedding (if we build our own indexer)
+ * - Index-time embedding of note sections (the fallback indexer in
+ *   indexer.ts), which skips the model's query prefix
  */
 
 import { pipeline, FeatureExtractionPipeline } from '@huggingface/transformers';
-import { log } from './security.js';
+import { EmbedPoolConfig, ModelLoading, log } from './security.js';
+import { ModelInfo } from './data.js';
+import { ModelProfile, getModelProfile } from './profiles.js';
+import { ModelSource, loadFromSource, locateModel } from './models.js';
+import { EmbedPool } from './embedpool.js';
 
-// Default model - matches what Smart Connections uses
-const DEFAULT_MODEL = 'TaylorAI/bge-micro-v2';
-
-// Maximum query length (characters) to prevent abuse
+// Maximum text embedded at once (characters); longer queries are chunked
+// with splitQuery before they reach an embedder
 const MAX_QUERY_LENGTH = 500;
 
+// Conservative estimate for sizing chunks to a model's token limit
+const CHARS_PER_TOKEN = 3;
+
+// Default Ollama endpoint (same default as the Ollama CLI)
+const DEFAULT_OLLAMA_HOST = 'http://127.0.0.1:11434';
+
+// Ollama limits when no pool config is given (the EMBED_* defaults)
+const DEFAULT_OLLAMA_LIMITS: EmbedPoolConfig = { workers: 1, queueSize: 32, timeoutMs: 30000 };
+
+// Queries get the profile's query prefix; passages (note text) don't
+export type EmbedKind = 'query' | 'passage';
+
+/**
+ * Common interface for query embedders, whichever adapter backs them.
+ */
+export interface QueryEmbedder {
+  initialize(): Promise<void>;
+  isReady(): boolean;
+  getModelKey(): string;
+  getDimensions(): number;
+  getProfile(): ModelProfile;
+  getSource(): ModelSource | null; // Where the model was loaded from, once ready
+  embed(text: string, signal?: AbortSignal, kind?: EmbedKind): Promise<number[]>;
+  close?(): void; // Release workers or other resources
+}
+
+/**
+ * An embedding request that was refused or abandoned rather than failed:
+ * the queue was full, it took too long, or the caller cancelled it.
+ */
+export class EmbedRequestError extends Error {
+  readonly code: 'queue_full' | 'timeout' | 'cancelled';
+
+  constructor(code: EmbedRequestError['code'], message: string) {
+    super(message);
+    this.name = 'EmbedRequestError';
+    this.code = code;
+  }
+}
+
+export interface EmbedderOptions {
+  ollamaHost?: string; // Overrides the host from smart_env.json
+  loading?: ModelLoading; // Model directory and offline mode (Transformers.js)
+  pool?: EmbedPoolConfig; // Transformers.js worker threads; queue size and timeout for Ollama too
+}
+
 /**
  * Embedder class wraps the Transformers.js pipeline.
  * Initialized once at startup, reused for all queries.
  */
-export class Embedder {
+export class Embedder implements QueryEmbedder {
   private pipeline: FeatureExtractionPipeline | null = null;
+  private profile: ModelProfile;
   private modelKey: string;
   private dimensions: number;
+  private loading: ModelLoading;
+  private source: ModelSource | null = null;
   private ready: boolean = false;
 
-  constructor(modelKey: string = DEFAULT_MODEL, dimensions: number = 384) {
-    this.modelKey = modelKey;
-    this.dimensions = dimensions;
+  constructor(profile: ModelProfile, loading: ModelLoading = { offline: false }) {
+    this.profile = profile;
+    this.modelKey = profile.modelKey;
+    this.dimensions = profile.dimensions;
+    this.loading = loading;
   }
 
   /**
    * Initialize the embedding pipeline.
    * Should be called at server startup (eager loading).
    *
-   * First run will download the model (~50MB) from Hugging Face Hub.
-   * Subsequent runs load from ~/.cache/huggingface/
+   * The model is loaded from the model directory or the Transformers.js
+   * cache; otherwise the first run downloads it (~50MB) from the Hugging
+   * Face Hub, unless offline mode is on (see models.ts).
    */
   async initialize(): Promise<void> {
     if (this.ready) {
@@ -49,15 +107,18 @@ export class Embedder {
     log('INFO', 'embedder_loading', { model: this.modelKey });
 
     try {
+      const source = locateModel(this.modelKey, this.loading);
+
       // Create the feature extraction pipeline
       // dtype: 'fp32' for accuracy, quantized: false for compatibility
       // Note: Type assertion needed due to complex union type from @huggingface/transformers
-      this.pipeline = (await pipeline('feature-extraction', this.modelKey, {
-        dtype: 'fp32',
-      })) as unknown as FeatureExtractionPipeline;
+      this.pipeline = (await loadFromSource(this.modelKey, source, (modelId, options) =>
+        pipeline('feature-extraction', modelId, { ...options, dtype: 'fp32' })
+      )) as unknown as FeatureExtractionPipeline;
+      this.source = source;
 
       this.ready = true;
-      log('INFO', 'embedder_ready', { model: this.modelKey });
+      log('INFO', 'embedder_ready', { model: this.modelKey, ...source });
     } catch (e) {
       log('ERROR', 'embedder_init_failed', { error: String(e) });
       throw new Error(`Failed to initialize embedder: ${e}`);
@@ -85,62 +146,371 @@ export class Embedder {
     return this.dimensions;
   }
 
+  getProfile(): ModelProfile {
+    return this.profile;
+  }
+
+  getSource(): ModelSource | null {
+    return this.source;
+  }
+
   /**
    * Compute embedding for a text query.
    *
-   * @param text - The text to embed (max 500 chars)
+   * Runs on the calling thread; EmbedPool moves it to worker threads.
+   *
+   * @param text - The text to embed (max maxQueryChars(profile) chars,
+   *               or maxPassageChars(profile) for passages)
+   * @param signal - Cancels the request if it hasn't started yet
+   * @param kind - 'passage' embeds note text, without the query prefix
    * @returns Embedding vector (384 dimensions for bge-micro-v2)
    */
-  async embed(text: string): Promise<number[]> {
+  async embed(text: string, signal?: AbortSignal, kind: EmbedKind = 'query'): Promise<number[]> {
     if (!this.ready || !this.pipeline) {
       throw new Error('Embedder not initialized');
     }
-
-    // Validate and truncate query
-    const query = text.slice(0, MAX_QUERY_LENGTH).trim();
-    if (!query) {
-      throw new Error('Empty query text');
+    if (signal?.aborted) {
+      throw new EmbedRequestError('cancelled', 'Embedding request cancelled');
     }
 
+    const input = modelInput(this.profile, text, kind);
+
     try {
-      // Run the model with mean pooling and normalization
-      // This matches how Smart Connections generates embeddings
-      const result = await this.pipeline(query, {
-        pooling: 'mean',
-        normalize: true,
+      // Pool and normalize the way the note vectors were produced
+      // (mean pooling and normalization for Smart Connections)
+      const result = await this.pipeline(input, {
+        pooling: this.profile.pooling,
+        normalize: this.profile.normalize,
       });
 
       // Convert to plain array
       // result.data is a Float32Array or similar typed array
-      const embedding = Array.from(result.data as Float32Array);
-
-      // Validate dimensions
-      if (embedding.length !== this.dimensions) {
-        log('WARN', 'embedding_dimension_mismatch', {
-          expected: this.dimensions,
-          actual: embedding.length,
-        });
-      }
+      // (dimensions are checked once at startup, see checkEmbedderDimensions)
+      return Array.from(result.data as Float32Array);
+    } catch (e) {
+      log('ERROR', 'embed_failed', { error: String(e) });
+      throw new Error(`Failed to compute embedding: ${e}`);
+    }
+  }
+}
+
+/**
+ * Embedder backed by an Ollama-compatible /api/embed endpoint.
+ *
+ * Used for vaults embedded with Smart Connections' Ollama adapter, so
+ * queries go through the same model that produced the note vectors.
+ */
+export class OllamaEmbedder implements QueryEmbedder {
+  private host: string;
+  private profile: ModelProfile;
+  private modelKey: string;
+  private dimensions: number;
+  private limits: EmbedPoolConfig;
+  private concurrency: number;
+  private ready: boolean = false;
+  private active = 0; // Requests sent to Ollama
+  private waiting: Array<() => void> = []; // Requests waiting for a slot
+
+  /**
+   * @param limits - Up to `workers` (at least one) requests are sent at a
+   *   time and `queueSize` more may wait; `timeoutMs` covers both
+   */
+  constructor(profile: ModelProfile, host: string = DEFAULT_OLLAMA_HOST, limits: EmbedPoolConfig = DEFAULT_OLLAMA_LIMITS) {
+    this.profile = profile;
+    this.modelKey = profile.modelKey;
+    this.dimensions = profile.dimensions;
+    this.host = normalizeHost(host);
+    this.limits = limits;
+    this.concurrency = Math.max(1, limits.workers);
+  }
+
+  /**
+   * Check the endpoint is reachable and serves the model.
+   */
+  async initialize(): Promise<void> {
+    if (this.ready) {
+      return;
+    }
+
+    log('INFO', 'embedder_loading', { model: this.modelKey, adapter: 'ollama', host: this.host });
+
+    try {
+      await this.request('ping', AbortSignal.timeout(this.limits.timeoutMs));
+      this.ready = true;
+      log('INFO', 'embedder_ready', { model: this.modelKey, adapter: 'ollama' });
+    } catch (e) {
+      log('ERROR', 'embedder_init_failed', { error: String(e) });
+      throw new Error(`Failed to initialize embedder: ${e}`);
+    }
+  }
+
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  getModelKey(): string {
+    return this.modelKey;
+  }
+
+  getDimensions(): number {
+    return this.dimensions;
+  }
+
+  getProfile(): ModelProfile {
+    return this.profile;
+  }
+
+  getSource(): ModelSource | null {
+    return this.ready ? { location: 'ollama', path: this.host } : null;
+  }
+
+  /**
+   * Compute embedding for a text query via the Ollama endpoint.
+   * Ollama pools and normalizes on its side; only the prefix applies.
+   *
+   * Throws EmbedRequestError for a full queue, a timeout or cancellation
+   * through `signal`.
+   */
+  async embed(text: string, signal?: AbortSignal, kind: EmbedKind = 'query'): Promise<number[]> {
+    if (!this.ready) {
+      throw new Error('Embedder not initialized');
+    }
+
+    const input = modelInput(this.profile, text, kind);
 
-      return embedding;
+    if (signal?.aborted) {
+      throw new EmbedRequestError('cancelled', 'Embedding request cancelled');
+    }
+    if (this.active >= this.concurrency && this.waiting.length >= this.limits.queueSize) {
+      log('WARN', 'embed_queue_full', { queued: this.waiting.length });
+      throw new EmbedRequestError('queue_full', 'Too many embedding requests in progress; retry shortly');
+    }
+
+    // Aborts on timeout or when the caller's signal aborts (AbortSignal.any
+    // needs Node 20.3)
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, this.limits.timeoutMs);
+    const abort = (): void => controller.abort();
+    signal?.addEventListener('abort', abort, { once: true });
+
+    try {
+      await this.acquire(controller.signal);
+      try {
+        return await this.request(input, controller.signal);
+      } finally {
+        this.release();
+      }
     } catch (e) {
+      if (timedOut) {
+        throw new EmbedRequestError('timeout', `Embedding took longer than ${this.limits.timeoutMs}ms`);
+      }
+      if (signal?.aborted) {
+        throw new EmbedRequestError('cancelled', 'Embedding request cancelled');
+      }
       log('ERROR', 'embed_failed', { error: String(e) });
       throw new Error(`Failed to compute embedding: ${e}`);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abort);
+    }
+  }
+
+  /**
+   * Wait for a request slot. Rejects if `signal` aborts while waiting.
+   */
+  private acquire(signal: AbortSignal): Promise<void> {
+    if (this.active < this.concurrency) {
+      this.active++;
+      return Promise.resolve();
     }
+
+    return new Promise((resolve, reject) => {
+      const start = (): void => {
+        signal.removeEventListener('abort', onAbort);
+        this.active++;
+        resolve();
+      };
+      const onAbort = (): void => {
+        this.waiting.splice(this.waiting.indexOf(start), 1);
+        reject(new Error('aborted while queued'));
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      this.waiting.push(start);
+    });
+  }
+
+  private release(): void {
+    this.active--;
+    this.waiting.shift()?.();
+  }
+
+  private async request(input: string, signal: AbortSignal): Promise<number[]> {
+    const response = await fetch(`${this.host}/api/embed`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: this.modelKey, input }),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Ollama returned HTTP ${response.status}`);
+    }
+
+    const body = (await response.json()) as { embeddings?: unknown };
+
+    const embedding = Array.isArray(body.embeddings) ? body.embeddings[0] : undefined;
+    if (!Array.isArray(embedding) || !embedding.every(v => typeof v === 'number')) {
+      throw new Error('Ollama response did not contain an embedding');
+    }
+
+    return embedding as number[];
   }
 }
 
 /**
- * Create and initialize an embedder for a given model.
+ * Accept "host:port" as well as full URLs, like the Ollama CLI does.
+ */
+function normalizeHost(host: string): string {
+  const withScheme = /^https?:\/\//.test(host) ? host : `http://${host}`;
+  return withScheme.replace(/\/+$/, '');
+}
+
+/**
+ * Longest query text embedded in one go for a model: MAX_QUERY_LENGTH,
+ * or less if the model's token limit (after the prefix) is smaller.
+ */
+export function maxQueryChars(profile: ModelProfile): number {
+  const fromTokens = profile.maxTokens * CHARS_PER_TOKEN - profile.queryPrefix.length;
+  return Math.max(1, Math.min(MAX_QUERY_LENGTH, fromTokens));
+}
+
+/**
+ * Longest passage embedded in one go: as much as the model reads.
+ */
+export function maxPassageChars(profile: ModelProfile): number {
+  return profile.maxTokens * CHARS_PER_TOKEN;
+}
+
+/**
+ * Truncate text to the model's limit and add the query prefix to queries.
+ * Throws on empty text.
+ */
+function modelInput(profile: ModelProfile, text: string, kind: EmbedKind): string {
+  if (kind === 'passage') {
+    const passage = text.slice(0, maxPassageChars(profile)).trim();
+    if (!passage) {
+      throw new Error('Empty passage text');
+    }
+    return passage;
+  }
+
+  const query = text.slice(0, maxQueryChars(profile)).trim();
+  if (!query) {
+    throw new Error('Empty query text');
+  }
+  return profile.queryPrefix + query;
+}
+
+/**
+ * Split long text into chunks of at most `maxChars` for embedding.
+ *
+ * Sentences are packed into chunks whole; a sentence longer than a chunk
+ * is split between words, and a single overlong word is cut.
+ */
+export function splitQuery(text: string, maxChars: number = MAX_QUERY_LENGTH): string[] {
+  const trimmed = text.trim();
+  if (trimmed.length <= maxChars) {
+    return trimmed ? [trimmed] : [];
+  }
+
+  const chunks: string[] = [];
+  let current = '';
+  const append = (piece: string, separator: string) => {
+    if (current && current.length + separator.length + piece.length <= maxChars) {
+      current += separator + piece;
+    } else {
+      if (current) chunks.push(current);
+      current = piece;
+    }
+  };
+
+  const sentences = new Intl.Segmenter(undefined, { granularity: 'sentence' });
+  for (const { segment } of sentences.segment(trimmed)) {
+    const sentence = segment.trim().replace(/\s+/g, ' ');
+    if (!sentence) continue;
+
+    if (sentence.length <= maxChars) {
+      append(sentence, ' ');
+      continue;
+    }
+
+    for (const word of sentence.split(' ')) {
+      for (let i = 0; i < word.length; i += maxChars) {
+        append(word.slice(i, i + maxChars), ' ');
+      }
+    }
+  }
+  if (current) chunks.push(current);
+
+  return chunks;
+}
+
+/**
+ * Create and initialize a query embedder matching the vault's adapter.
  *
- * @param modelKey - Hugging Face model key (default: TaylorAI/bge-micro-v2)
- * @param dimensions - Expected embedding dimensions (default: 384)
+ * Throws if the adapter has no local query embedder (e.g. hosted APIs
+ * such as OpenAI); note-based search still works in that case.
  */
 export async function createEmbedder(
-  modelKey: string = DEFAULT_MODEL,
-  dimensions: number = 384
-): Promise<Embedder> {
-  const embedder = new Embedder(modelKey, dimensions);
+  modelInfo: ModelInfo,
+  options: EmbedderOptions = {}
+): Promise<QueryEmbedder> {
+  let embedder: QueryEmbedder;
+  // The index's dimensions win over the profile's
+  const profile: ModelProfile = { ...getModelProfile(modelInfo.modelKey), dimensions: modelInfo.dimensions };
+
+  switch (modelInfo.adapter) {
+    case 'transformers':
+      // Off the main thread, so inference can't stall other requests
+      embedder = options.pool && options.pool.workers > 0
+        ? new EmbedPool(profile, options.loading, options.pool)
+        : new Embedder(profile, options.loading);
+      break;
+    case 'ollama':
+      embedder = new OllamaEmbedder(profile, options.ollamaHost ?? modelInfo.host, options.pool);
+      break;
+    default:
+      throw new Error(`No local query embedder for adapter "${modelInfo.adapter}"`);
+  }
+
   await embedder.initialize();
   return embedder;
 }
+
+/**
+ * Check that the embedder's output matches the index dimensions.
+ *
+ * Run once at startup. Returns a reason to disable text search, or null
+ * if the dimensions match.
+ */
+export async function checkEmbedderDimensions(
+  embedder: QueryEmbedder,
+  expected: number
+): Promise<string | null> {
+  let actual: number;
+  try {
+    actual = (await embedder.embed('dimension check')).length;
+  } catch {
+    return 'embedder failed to compute a test embedding';
+  }
+
+  if (actual !== expected) {
+    return `query embedder for ${embedder.getModelKey()} produces ${actual}-dimensional vectors, but the index has ${expected}`;
+  }
+
+  return null;
+}
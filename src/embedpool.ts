@@ -0,0 +1,96 @@
+/**
+ * Query embeddings in worker threads.
+ *
+ * EmbedPool runs an Embedder in each of `workers` threads (see
+ * embedworker.ts) through a WorkerPool, which queues, times out and
+ * cancels requests (see workerpool.ts).
+ */
+
+import { EmbedPoolConfig, ModelLoading } from './security.js';
+import { EmbedKind, QueryEmbedder } from './embeddings.js';
+import { ModelProfile } from './profiles.js';
+import { ModelSource } from './models.js';
+import { PoolStats, WorkerPool } from './workerpool.js';
+
+// Passed to embedworker.ts
+export interface EmbedWorkerInit {
+  profile: ModelProfile;
+  loading?: ModelLoading;
+}
+
+export interface EmbedJob {
+  text: string;
+  kind: EmbedKind;
+}
+
+export class EmbedPool implements QueryEmbedder {
+  private profile: ModelProfile;
+  private pool: WorkerPool<EmbedJob, Float32Array>;
+  private source: ModelSource | null = null;
+  private ready: boolean = false;
+
+  constructor(profile: ModelProfile, loading: ModelLoading | undefined, options: EmbedPoolConfig) {
+    this.profile = profile;
+    this.pool = new WorkerPool({
+      name: 'embed',
+      task: 'Embedding',
+      model: profile.modelKey,
+      script: new URL('./embedworker.js', import.meta.url),
+      workerData: { profile, loading } satisfies EmbedWorkerInit,
+      limits: options,
+    });
+  }
+
+  async initialize(): Promise<void> {
+    if (this.ready) {
+      return;
+    }
+    // Worker errors already read "Failed to initialize embedder: ..."
+    this.source = await this.pool.initialize();
+    this.ready = true;
+  }
+
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  getModelKey(): string {
+    return this.profile.modelKey;
+  }
+
+  getDimensions(): number {
+    return this.profile.dimensions;
+  }
+
+  getProfile(): ModelProfile {
+    return this.profile;
+  }
+
+  getSource(): ModelSource | null {
+    return this.source;
+  }
+
+  getStats(): PoolStats {
+    return this.pool.getStats();
+  }
+
+  /**
+   * Embed a query on the next idle worker.
+   *
+   * Throws EmbedRequestError for a full queue, a timeout or cancellation
+   * through `signal`.
+   */
+  async embed(text: string, signal?: AbortSignal, kind: EmbedKind = 'query'): Promise<number[]> {
+    if (!this.ready) {
+      throw new Error('Embedder not initialized');
+    }
+    return Array.from(await this.pool.run({ text, kind }, signal));
+  }
+
+  /**
+   * Stop all workers. Pending requests are cancelled.
+   */
+  close(): void {
+    this.pool.close();
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Embedding worker thread, started by EmbedPool.
+ *
+ * Loads the query model once, then embeds one request at a time.
+ */
+
+import { workerData } from 'node:worker_threads';
+import { Embedder } from './embeddings.js';
+import { configureModelLoading } from './models.js';
+import { serveWorker } from './workerpool.js';
+import type { EmbedJob, EmbedWorkerInit } from './embedpool.js';
+
+const { profile, loading } = workerData as EmbedWorkerInit;
+// Each thread has its own Transformers.js settings
+if (loading) {
+  configureModelLoading(loading);
+}
+const embedder = new Embedder(profile, loading);
+
+await serveWorker<EmbedJob, Float32Array>(
+  async () => {
+    await embedder.initialize();
+    return embedder.getSource()!;
+  },
+  async ({ text, kind }) => {
+    const vector = Float32Array.from(await embedder.embed(text, undefined, kind));
+    return { result: vector, transfer: [vector.buffer] };
+  }
+);
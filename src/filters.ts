@@ -0,0 +1,280 @@
+/**
+ * Search filters: path globs, tags, frontmatter and modification dates.
+ *
+ * Filters compile to a predicate on note paths that search indexes apply
+ * before scoring, so a filtered search still returns a full page of
+ * results. No filter touches the filesystem: tag, frontmatter and date
+ * filters use NoteMetadataIndex, which the VaultScanner (vault.ts) keeps
+ * up to date.
+ */
+
+import { NoteStats, VaultNoteConsumer, VaultScanner } from './vault.js';
+
+export interface SearchFilters {
+  include?: string[]; // Globs; a note must match at least one
+  exclude?: string[]; // Globs; a note must match none
+  tags?: string[]; // A note must have all of these (nested tags count)
+  frontmatter?: Record<string, string | number | boolean>; // Required values
+  modifiedAfter?: string; // ISO date
+  modifiedBefore?: string; // ISO date
+}
+
+export type NoteFilter = (notePath: string) => boolean;
+
+interface NoteMetadata {
+  mtimeMs: number;
+  tags: Set<string>;
+  frontmatter: Record<string, unknown>;
+}
+
+/**
+ * Modification time, tags and frontmatter of every vault note.
+ */
+export class NoteMetadataIndex implements VaultNoteConsumer {
+  private scanner: VaultScanner;
+  private notes = new Map<string, NoteMetadata>();
+
+  constructor(scanner: VaultScanner) {
+    this.scanner = scanner;
+    scanner.addConsumer(this);
+  }
+
+  /**
+   * Resolves once the vault has been scanned at least once.
+   */
+  ready(): Promise<void> {
+    return this.scanner.ready();
+  }
+
+  get(notePath: string): NoteMetadata | undefined {
+    return this.notes.get(notePath);
+  }
+
+  update(notePath: string, content: string, stats: NoteStats): void {
+    const { frontmatter, body } = parseFrontmatter(content);
+    this.notes.set(notePath, { mtimeMs: stats.mtimeMs, tags: collectTags(frontmatter, body), frontmatter });
+  }
+
+  remove(notePath: string): void {
+    this.notes.delete(notePath);
+  }
+}
+
+/**
+ * Compile filters into a note path predicate.
+ *
+ * Returns undefined when no filter is set, so callers can skip filtering.
+ * Throws on invalid dates. Waits for the first vault scan only when a
+ * filter needs note metadata.
+ */
+export async function compileFilters(
+  metadataIndex: NoteMetadataIndex,
+  filters: SearchFilters
+): Promise<NoteFilter | undefined> {
+  const predicates: NoteFilter[] = [];
+
+  if (filters.include?.length) {
+    const patterns = filters.include.map(globToRegExp);
+    predicates.push(notePath => patterns.some(p => p.test(notePath)));
+  }
+
+  if (filters.exclude?.length) {
+    const patterns = filters.exclude.map(globToRegExp);
+    predicates.push(notePath => !patterns.some(p => p.test(notePath)));
+  }
+
+  const after = parseDate(filters.modifiedAfter, 'modifiedAfter');
+  const before = parseDate(filters.modifiedBefore, 'modifiedBefore');
+  const tags = (filters.tags ?? []).map(normalizeTag).filter(Boolean);
+  const frontmatter = Object.entries(filters.frontmatter ?? {});
+
+  if (after !== undefined || before !== undefined || tags.length > 0 || frontmatter.length > 0) {
+    await metadataIndex.ready();
+    predicates.push(notePath => {
+      const metadata = metadataIndex.get(notePath);
+      if (!metadata) return false;
+
+      if (after !== undefined && metadata.mtimeMs <= after) return false;
+      if (before !== undefined && metadata.mtimeMs >= before) return false;
+
+      for (const tag of tags) {
+        if (!hasTag(metadata.tags, tag)) return false;
+      }
+
+      for (const [key, expected] of frontmatter) {
+        if (!valueMatches(metadata.frontmatter[key], expected)) return false;
+      }
+
+      return true;
+    });
+  }
+
+  if (predicates.length === 0) {
+    return undefined;
+  }
+
+  return (notePath) => predicates.every(p => p(notePath));
+}
+
+/**
+ * Combine two optional predicates.
+ */
+export function andFilters(a?: NoteFilter, b?: NoteFilter): NoteFilter | undefined {
+  if (!a) return b;
+  if (!b) return a;
+  return (notePath) => a(notePath) && b(notePath);
+}
+
+/**
+ * Convert a glob to an anchored regular expression.
+ *
+ * `*` matches within a path segment, `**` across segments and `?` one
+ * character. A trailing `/` matches everything below a folder.
+ */
+function globToRegExp(glob: string): RegExp {
+  const pattern = glob.replace(/^\/+/, '').replace(/\/$/, '/**');
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // "**/" also matches zero folders
+        if (pattern[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Parse a YAML frontmatter block.
+ *
+ * Handles the subset Obsidian notes use in practice: scalar values,
+ * inline lists ([a, b]) and block lists ("- a"). Anything else is skipped.
+ */
+function parseFrontmatter(content: string): { frontmatter: Record<string, unknown>; body: string } {
+  const match = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/.exec(content);
+  if (!match) {
+    return { frontmatter: {}, body: content };
+  }
+
+  const frontmatter: Record<string, unknown> = {};
+  let listKey: string | null = null;
+
+  for (const line of match[1].split(/\r?\n/)) {
+    const item = /^\s+-\s*(.*)$/.exec(line) ?? /^-\s+(.*)$/.exec(line);
+    if (item && listKey) {
+      (frontmatter[listKey] as unknown[]).push(parseScalar(item[1]));
+      continue;
+    }
+
+    const pair = /^([^\s#][^:]*):\s*(.*)$/.exec(line);
+    if (!pair) continue;
+
+    const key = pair[1].trim();
+    const value = pair[2].trim();
+    listKey = null;
+
+    if (value === '') {
+      // Start of a block list (or an empty value)
+      frontmatter[key] = [];
+      listKey = key;
+    } else if (value.startsWith('[') && value.endsWith(']')) {
+      frontmatter[key] = value
+        .slice(1, -1)
+        .split(',')
+        .map(v => parseScalar(v.trim()))
+        .filter(v => v !== '');
+    } else {
+      frontmatter[key] = parseScalar(value);
+    }
+  }
+
+  return { frontmatter, body: content.slice(match[0].length) };
+}
+
+function parseScalar(value: string): unknown {
+  const unquoted = /^(["'])(.*)\1$/.exec(value);
+  if (unquoted) return unquoted[2];
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  return value;
+}
+
+/**
+ * Tags from frontmatter (`tags`/`tag`, as a list or a comma/space
+ * separated string) and inline #tags in the body.
+ */
+function collectTags(frontmatter: Record<string, unknown>, body: string): Set<string> {
+  const tags = new Set<string>();
+
+  for (const key of ['tags', 'tag']) {
+    const value = frontmatter[key];
+    const values = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[,\s]+/) : [];
+    for (const v of values) {
+      const tag = normalizeTag(String(v));
+      if (tag) tags.add(tag);
+    }
+  }
+
+  // Skip fenced code blocks, where "#" is usually not a tag
+  const text = body.replace(/```[\s\S]*?```/g, '');
+  for (const match of text.matchAll(/(?:^|\s)#([\p{L}\p{N}_\-/]*[\p{L}_\-/][\p{L}\p{N}_\-/]*)/gu)) {
+    tags.add(normalizeTag(match[1]));
+  }
+
+  return tags;
+}
+
+function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#/, '').toLowerCase();
+}
+
+/**
+ * Nested tags count: requiring "project" matches "project/alpha".
+ */
+function hasTag(tags: Set<string>, tag: string): boolean {
+  if (tags.has(tag)) return true;
+  for (const t of tags) {
+    if (t.startsWith(`${tag}/`)) return true;
+  }
+  return false;
+}
+
+/**
+ * A frontmatter value matches if it equals the expected value, or is a
+ * list containing it. Strings compare case-insensitively.
+ */
+function valueMatches(actual: unknown, expected: string | number | boolean): boolean {
+  if (Array.isArray(actual)) {
+    return actual.some(v => valueMatches(v, expected));
+  }
+  if (actual === undefined || actual === null) {
+    return false;
+  }
+  return String(actual).toLowerCase() === String(expected).toLowerCase();
+}
+
+function parseDate(value: string | undefined, name: string): number | undefined {
+  if (value === undefined) return undefined;
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new Error(`${name} must be an ISO date (e.g. "2024-01-31")`);
+  }
+  return time;
+}
@@ -0,0 +1,378 @@
+/**
+ * Approximate nearest-neighbour search (HNSW) for very large vaults.
+ *
+ * Pure TypeScript implementation of Hierarchical Navigable Small World
+ * graphs (Malkov & Yashunin, 2016) over the normalized vectors of an
+ * exact VectorIndex. The graph is built in the background in short time
+ * slices so the server keeps answering requests; until it is ready, and
+ * for indexes below `minVectors`, searches use the exact index.
+ */
+
+import { log } from './security.js';
+import {
+  SearchIndex,
+  TopK,
+  VectorHit,
+  VectorIndex,
+  VectorSearchOptions,
+  mulberry32,
+  normalizedCopy,
+} from './vectors.js';
+
+export interface HnswParams {
+  m: number; // Max neighbours per node on upper layers (2x on layer 0)
+  efConstruction: number; // Candidate list size while building (recall vs build time)
+  efSearch: number; // Candidate list size while searching (recall vs latency)
+  minVectors: number; // Below this many vectors, exact search is used
+}
+
+// Longest a build slice may block the event loop
+const BUILD_SLICE_MS = 20;
+
+/**
+ * Search index that answers from an HNSW graph once built, and from the
+ * exact index before that (or when the index is small).
+ */
+export class AnnIndex implements SearchIndex {
+  readonly dimensions: number;
+  private exact: VectorIndex;
+  private graph: HnswGraph | null = null;
+  private params: HnswParams;
+  private disposed: boolean = false;
+
+  constructor(exact: VectorIndex, params: HnswParams, name: string) {
+    this.exact = exact;
+    this.params = params;
+    this.dimensions = exact.dimensions;
+
+    if (exact.size >= params.minVectors) {
+      void this.build(name);
+    }
+  }
+
+  get size(): number {
+    return this.exact.size;
+  }
+
+  /**
+   * Whether searches are served by the graph.
+   */
+  isReady(): boolean {
+    return this.graph !== null;
+  }
+
+  has(key: string): boolean {
+    return this.exact.has(key);
+  }
+
+  getVector(key: string): Float32Array | undefined {
+    return this.exact.getVector(key);
+  }
+
+  dispose(): void {
+    this.disposed = true;
+  }
+
+  search(query: ArrayLike<number>, options: VectorSearchOptions): VectorHit[] {
+    if (!this.graph) {
+      return this.exact.search(query, options);
+    }
+
+    if (query.length !== this.dimensions) {
+      throw new Error(`Vector dimension mismatch: ${query.length} vs ${this.dimensions}`);
+    }
+
+    const { limit, threshold, filter } = options;
+    const q = normalizedCopy(query);
+    const ef = Math.max(this.params.efSearch, limit);
+
+    const hits = this.graph
+      .search(q, ef, filter ? (row) => filter(this.exact.keyAt(row)) : undefined)
+      .filter(({ score }) => score >= threshold)
+      .slice(0, limit)
+      .map(({ row, score }) => ({ key: this.exact.keyAt(row), row, score }));
+
+    // A selective filter can leave the graph walk short of a full page,
+    // even though enough matches exist; exact search guarantees the page
+    if (filter && hits.length < limit) {
+      return this.exact.search(query, options);
+    }
+
+    return hits;
+  }
+
+  private async build(name: string): Promise<void> {
+    const started = Date.now();
+    const graph = new HnswGraph(this.exact, this.params.m, this.params.efConstruction);
+
+    log('INFO', 'ann_index_building', { index: name, vectors: this.exact.size, ...this.params });
+
+    try {
+      let row = 0;
+      while (row < this.exact.size) {
+        if (this.disposed) return;
+
+        const sliceEnd = Date.now() + BUILD_SLICE_MS;
+        while (row < this.exact.size && Date.now() < sliceEnd) {
+          graph.insert(row++);
+        }
+
+        // Let pending requests run between slices
+        await new Promise<void>(resolve => setImmediate(resolve));
+      }
+
+      if (this.disposed) return;
+      this.graph = graph;
+      log('INFO', 'ann_index_ready', { index: name, vectors: this.exact.size, durationMs: Date.now() - started });
+    } catch (e) {
+      // Exact search keeps working
+      log('ERROR', 'ann_index_build_failed', { index: name, error: String(e) });
+    }
+  }
+}
+
+/**
+ * The HNSW graph itself. Nodes are rows of the exact index.
+ */
+class HnswGraph {
+  private index: VectorIndex;
+  private m: number;
+  private m0: number;
+  private efConstruction: number;
+  private levelMult: number;
+  private random: () => number;
+
+  // neighbours[row][level] = neighbour rows
+  private neighbours: number[][][] = [];
+  private entryPoint: number = -1;
+  private maxLevel: number = -1;
+
+  // Visited marks, reset cheaply by bumping the generation
+  private visited: Uint32Array;
+  private generation: number = 0;
+
+  constructor(index: VectorIndex, m: number, efConstruction: number) {
+    this.index = index;
+    this.m = m;
+    this.m0 = 2 * m;
+    this.efConstruction = efConstruction;
+    this.levelMult = 1 / Math.log(m);
+    this.visited = new Uint32Array(index.size);
+    // Seeded, so the same index always builds the same graph
+    this.random = mulberry32(0x5eed);
+  }
+
+  insert(row: number): void {
+    const level = Math.floor(-Math.log(1 - this.random()) * this.levelMult);
+    this.neighbours[row] = Array.from({ length: level + 1 }, () => []);
+
+    if (this.entryPoint === -1) {
+      this.entryPoint = row;
+      this.maxLevel = level;
+      return;
+    }
+
+    const q = this.index.rowVector(row);
+    let entry = this.entryPoint;
+
+    // Greedy descent through layers above the new node's level
+    for (let l = this.maxLevel; l > level; l--) {
+      entry = this.greedy(q, entry, l);
+    }
+
+    // Connect on each layer the node lives on
+    for (let l = Math.min(level, this.maxLevel); l >= 0; l--) {
+      const candidates = this.searchLayer(q, [entry], this.efConstruction, l);
+      const maxConnections = l === 0 ? this.m0 : this.m;
+      const selected = this.selectNeighbours(candidates, this.m);
+
+      this.neighbours[row][l] = selected.map(c => c.row);
+
+      for (const { row: neighbour } of selected) {
+        const links = this.neighbours[neighbour][l];
+        links.push(row);
+        if (links.length > maxConnections) {
+          const nv = this.index.rowVector(neighbour);
+          const scored = links.map(r => ({ row: r, score: this.index.scoreRow(nv, r) }));
+          scored.sort((a, b) => b.score - a.score);
+          this.neighbours[neighbour][l] = this.selectNeighbours(scored, maxConnections).map(c => c.row);
+        }
+      }
+
+      entry = candidates[0].row;
+    }
+
+    if (level > this.maxLevel) {
+      this.maxLevel = level;
+      this.entryPoint = row;
+    }
+  }
+
+  /**
+   * Search for the `ef` nearest nodes passing `filter`, best first.
+   */
+  search(
+    q: Float32Array,
+    ef: number,
+    filter?: (row: number) => boolean
+  ): Array<{ row: number; score: number }> {
+    if (this.entryPoint === -1) return [];
+
+    let entry = this.entryPoint;
+    for (let l = this.maxLevel; l > 0; l--) {
+      entry = this.greedy(q, entry, l);
+    }
+
+    return this.searchLayer(q, [entry], ef, 0, filter);
+  }
+
+  /**
+   * Walk to the single closest node on a layer.
+   */
+  private greedy(q: Float32Array, entry: number, level: number): number {
+    let best = entry;
+    let bestScore = this.index.scoreRow(q, entry);
+    let improved = true;
+
+    while (improved) {
+      improved = false;
+      for (const neighbour of this.neighbours[best][level] ?? []) {
+        const score = this.index.scoreRow(q, neighbour);
+        if (score > bestScore) {
+          best = neighbour;
+          bestScore = score;
+          improved = true;
+        }
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Beam search on one layer. Nodes failing `filter` are still traversed
+   * (they connect the graph) but are not returned.
+   */
+  private searchLayer(
+    q: Float32Array,
+    entries: number[],
+    ef: number,
+    level: number,
+    filter?: (row: number) => boolean
+  ): Array<{ row: number; score: number }> {
+    this.generation++;
+    if (this.generation === 0xffffffff) {
+      this.visited.fill(0);
+      this.generation = 1;
+    }
+
+    const candidates = new MaxHeap();
+    const results = new TopK(ef);
+
+    for (const entry of entries) {
+      const score = this.index.scoreRow(q, entry);
+      this.visited[entry] = this.generation;
+      candidates.push(entry, score);
+      if (!filter || filter(entry)) results.push(entry, score);
+    }
+
+    while (candidates.size > 0) {
+      const { row, score } = candidates.pop()!;
+      if (results.size >= ef && score < results.minScore()) break;
+
+      for (const neighbour of this.neighbours[row][level] ?? []) {
+        if (this.visited[neighbour] === this.generation) continue;
+        this.visited[neighbour] = this.generation;
+
+        const neighbourScore = this.index.scoreRow(q, neighbour);
+        if (results.size < ef || neighbourScore > results.minScore()) {
+          candidates.push(neighbour, neighbourScore);
+          if (!filter || filter(neighbour)) results.push(neighbour, neighbourScore);
+        }
+      }
+    }
+
+    return results.sorted();
+  }
+
+  /**
+   * Neighbour selection heuristic: keep a candidate only if it is closer
+   * to the base node than to any neighbour already kept. This spreads
+   * links across clusters, which keeps the graph navigable.
+   * `candidates` must be sorted best first.
+   */
+  private selectNeighbours(
+    candidates: Array<{ row: number; score: number }>,
+    max: number
+  ): Array<{ row: number; score: number }> {
+    const selected: Array<{ row: number; score: number }> = [];
+
+    for (const candidate of candidates) {
+      if (selected.length >= max) break;
+
+      const cv = this.index.rowVector(candidate.row);
+      const diverse = selected.every(s => this.index.scoreRow(cv, s.row) < candidate.score);
+      if (diverse) selected.push(candidate);
+    }
+
+    return selected;
+  }
+}
+
+/**
+ * Binary max-heap of (row, score), highest score on top.
+ */
+class MaxHeap {
+  private rows: number[] = [];
+  private scores: number[] = [];
+
+  get size(): number {
+    return this.rows.length;
+  }
+
+  push(row: number, score: number): void {
+    let i = this.rows.length;
+    this.rows.push(row);
+    this.scores.push(score);
+
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.scores[parent] >= this.scores[i]) break;
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  pop(): { row: number; score: number } | undefined {
+    if (this.rows.length === 0) return undefined;
+
+    const top = { row: this.rows[0], score: this.scores[0] };
+    const lastRow = this.rows.pop()!;
+    const lastScore = this.scores.pop()!;
+
+    if (this.rows.length > 0) {
+      this.rows[0] = lastRow;
+      this.scores[0] = lastScore;
+
+      let i = 0;
+      const n = this.rows.length;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let largest = i;
+        if (left < n && this.scores[left] > this.scores[largest]) largest = left;
+        if (right < n && this.scores[right] > this.scores[largest]) largest = right;
+        if (largest === i) break;
+        this.swap(i, largest);
+        i = largest;
+      }
+    }
+
+    return top;
+  }
+
+  private swap(a: number, b: number): void {
+    [this.rows[a], this.rows[b]] = [this.rows[b], this.rows[a]];
+    [this.scores[a], this.scores[b]] = [this.scores[b], this.scores[a]];
+  }
+}
@@ -17,12 +17,28 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 
 import { validateConfig, log, Config } from './security.js';
 import { loadSmartConnectionsData, SmartConnectionsData } from './data.js';
 import { toolDefinitions, handleToolCall, ToolContext } from './tools.js';
-import { createEmbedder, Embedder } from './embeddings.js';
+import { createEmbedder, checkEmbedderDimensions, QueryEmbedder } from './embeddings.js';
+import { watchSmartEnv } from './watcher.js';
+import { KeywordIndex } from './keyword.js';
+import { LinkGraph } from './links.js';
+import { NoteMetadataIndex } from './filters.js';
+import { VaultScanner } from './vault.js';
+import { CrossEncoder, RerankPool, Reranker } from './rerank.js';
+import { CachedEmbedder } from './querycache.js';
+import { loadModelProfiles } from './profiles.js';
+import { configureModelLoading } from './models.js';
+import { startLocalIndexer } from './indexer.js';
+import { ResourceSubscriptions, listResources, readResource, resourceTemplates } from './resources.js';
 
 const VERSION = '0.2.0';
 
@@ -36,8 +52,31 @@ async function main(): Promise<void> {
   // SECURITY: Validate configuration at startup (fail fast)
   let config: Config;
   try {
-    config = validateConfig(vaultPath);
-    log('INFO', 'config_validated', { vaultPath: config.vaultPath });
+    config = validateConfig(vaultPath, {
+      cacheDir: getOption('--cache-dir', 'CACHE_DIR'),
+      annIndex: getOption('--ann-index', 'ANN_INDEX'),
+      annMinVectors: getOption('--ann-min-vectors', 'ANN_MIN_VECTORS'),
+      hnswM: getOption('--hnsw-m', 'HNSW_M'),
+      hnswEfConstruction: getOption('--hnsw-ef-construction', 'HNSW_EF_CONSTRUCTION'),
+      hnswEfSearch: getOption('--hnsw-ef-search', 'HNSW_EF_SEARCH'),
+      rerankerModel: getOption('--reranker-model', 'RERANKER_MODEL'),
+      queryCache: getOption('--query-cache', 'QUERY_CACHE'),
+      queryCacheSize: getOption('--query-cache-size', 'QUERY_CACHE_SIZE'),
+      maxPassageLength: getOption('--max-passage-length', 'MAX_PASSAGE_LENGTH'),
+      modelProfiles: getOption('--model-profiles', 'MODEL_PROFILES'),
+      modelDir: getOption('--model-dir', 'MODEL_PATH'),
+      offline: process.argv.includes('--offline') ? 'true' : process.env.OFFLINE || undefined,
+      embedWorkers: getOption('--embed-workers', 'EMBED_WORKERS'),
+      embedQueueSize: getOption('--embed-queue-size', 'EMBED_QUEUE_SIZE'),
+      embedTimeoutMs: getOption('--embed-timeout-ms', 'EMBED_TIMEOUT_MS'),
+      localIndex: process.argv.includes('--local-index') ? 'true' : process.env.LOCAL_INDEX || undefined,
+      localIndexRescanMinutes: getOption('--local-index-rescan-minutes', 'LOCAL_INDEX_RESCAN_MINUTES'),
+    });
+    if (config.modelProfiles) {
+      loadModelProfiles(config.modelProfiles);
+    }
+    configureModelLoading(config.models);
+    log('INFO', 'config_validated', { vaultPath: config.vaultPath, cacheDir: config.cacheDir });
   } catch (e) {
     log('ERROR', 'config_validation_failed', { error: String(e) });
     process.exit(1);
@@ -53,21 +92,69 @@ async function main(): Promise<void> {
   }
 
   // Initialize embedder for text search (eager loading)
-  // Uses the same model as Smart Connections for compatibility
-  let embedder: Embedder | undefined;
+  // Uses the same model and adapter as Smart Connections for compatibility
+  let embedder: CachedEmbedder | undefined;
+  let textSearchDisabledReason: string | undefined;
+  let queryEmbedder: QueryEmbedder | undefined;
   try {
-    embedder = await createEmbedder(
-      data.modelInfo.modelKey,
-      data.modelInfo.dimensions
-    );
+    queryEmbedder = await createEmbedder(data.modelInfo, {
+      ollamaHost: getOption('--ollama-host', 'OLLAMA_HOST'),
+      loading: config.models,
+      pool: config.embedPool,
+    });
   } catch (e) {
     // Embedder failure is not fatal - search_by_text won't work, but other tools will
     log('WARN', 'embedder_init_failed', { error: String(e) });
-    log('WARN', 'text_search_disabled', { reason: 'embedder initialization failed' });
+    textSearchDisabledReason = 'embedder initialization failed';
+  }
+
+  // Query vectors must have the same dimensions as the stored ones
+  if (queryEmbedder) {
+    const reason = await checkEmbedderDimensions(queryEmbedder, data.modelInfo.dimensions);
+    if (reason) {
+      textSearchDisabledReason = reason;
+      queryEmbedder.close?.();
+    } else {
+      // Repeated queries reuse their embedding instead of running the model
+      embedder = new CachedEmbedder(queryEmbedder, config);
+    }
+  }
+
+  if (textSearchDisabledReason) {
+    log('WARN', 'text_search_disabled', { reason: textSearchDisabledReason });
+  }
+
+  // Optional cross-encoder; without it, search_by_text keeps cosine ranking
+  let reranker: CrossEncoder | undefined;
+  if (config.rerankerModel) {
+    try {
+      // One worker: reranking runs once per search, after the embedding
+      reranker = config.embedPool.workers > 0
+        ? new RerankPool(config.rerankerModel, config.models, { ...config.embedPool, workers: 1 })
+        : new Reranker(config.rerankerModel, config.models);
+      await reranker.initialize();
+    } catch (e) {
+      log('WARN', 'reranker_disabled', { error: String(e) });
+      reranker = undefined;
+    }
   }
 
   // Create tool context
-  const ctx: ToolContext = { config, data, embedder };
+  // Indexes of note contents read the vault on first use, not at startup
+  const vaultScanner = new VaultScanner(config);
+  const keywordIndex = new KeywordIndex(vaultScanner);
+  const linkGraph = new LinkGraph(vaultScanner);
+  const noteMetadata = new NoteMetadataIndex(vaultScanner);
+  const ctx: ToolContext = {
+    config,
+    data,
+    embedder,
+    textSearchDisabledReason,
+    keywordIndex,
+    linkGraph,
+    noteMetadata,
+    reranker,
+  };
 
   // Create MCP server
   const server = new Server(
@@ -78,6 +165,7 @@ async function main(): Promise<void> {
     {
       capabilities: {
         tools: {},
+        resources: { subscribe: true, listChanged: true },
       },
     }
   );
@@ -90,14 +178,45 @@ async function main(): Promise<void> {
   });
 
   // Register tool call handler
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
     const { name, arguments: args } = request.params;
 
-    const result = await handleToolCall(name, args, ctx);
+    // The signal aborts when the client cancels the request
+    const result = await handleToolCall(name, args, ctx, extra.signal);
 
     return result;
   });
 
+  // Notes as resources (note://<path>), with update notifications
+  const notifyFailed = (e: unknown) => log('WARN', 'resource_notification_failed', { error: String(e) });
+  const subscriptions = new ResourceSubscriptions(
+    config,
+    (uri) => server.sendResourceUpdated({ uri }).catch(notifyFailed),
+    () => server.sendResourceListChanged().catch(notifyFailed)
+  );
+
+  server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+    return listResources(ctx, request.params?.cursor);
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    return readResource(ctx, request.params.uri);
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.subscribe(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.unsubscribe(request.params.uri);
+    return {};
+  });
+
   // Start server with stdio transport
   const transport = new StdioServerTransport();
 
@@ -105,21 +224,63 @@ async function main(): Promise<void> {
     version: VERSION,
     vaultPath: config.vaultPath,
     indexedNotes: data.entries.size,
+    indexedBlocks: data.blocks.size,
     modelKey: data.modelInfo.modelKey,
     textSearchEnabled: embedder?.isReady() ?? false,
+    rerankerModel: reranker?.getModelKey(),
   });
 
   await server.connect(transport);
 
   log('INFO', 'server_connected');
 
+  // Handlers read ctx.data once per call, so swapping the reference is atomic
+  const swapData = (next: SmartConnectionsData): void => {
+    const previous = ctx.data;
+    ctx.data = next;
+    subscriptions.dataChanged(previous, next);
+  };
+
+  // Embed notes Smart Connections hasn't, in the background, with the
+  // query model. Needs a working embedder.
+  let stopIndexing = (): void => {};
+  if (config.localIndex.enabled) {
+    if (embedder) {
+      stopIndexing = startLocalIndexer(config, embedder, () => ctx.data, swapData);
+    } else {
+      log('WARN', 'local_index_disabled', { reason: textSearchDisabledReason });
+    }
+  }
+
+  // Reload the index when Smart Connections re-embeds notes.
+  const stopWatching = watchSmartEnv(config, () => ctx.data, (next) => {
+    if (ctx.embedder && next.modelInfo.modelKey !== ctx.embedder.getModelKey()) {
+      stopIndexing();
+      ctx.embedder.close?.();
+      ctx.embedder = undefined;
+      ctx.textSearchDisabledReason = 'embedding model changed; restart the server to load the new model';
+      log('WARN', 'text_search_disabled', { reason: ctx.textSearchDisabledReason });
+    }
+    swapData(next);
+  });
+
   // Handle graceful shutdown
   process.on('SIGINT', () => {
+    stopWatching();
+    stopIndexing();
+    subscriptions.close();
+    embedder?.close();
+    reranker?.close?.();
     log('INFO', 'server_shutdown', { reason: 'SIGINT' });
     process.exit(0);
   });
 
   process.on('SIGTERM', () => {
+    stopWatching();
+    stopIndexing();
+    subscriptions.close();
+    embedder?.close();
+    reranker?.close?.();
     log('INFO', 'server_shutdown', { reason: 'SIGTERM' });
     process.exit(0);
   });
@@ -130,14 +291,21 @@ async function main(): Promise<void> {
  */
 function getVaultPath(): string | undefined {
   // Check CLI args: --vault /path/to/vault
+  return getOption('--vault', 'VAULT_PATH');
+}
+
+/**
+ * Get an option from CLI args (--flag value), falling back to an
+ * environment variable.
+ */
+function getOption(flag: string, envVar: string): string | undefined {
   const args = process.argv.slice(2);
-  const vaultIdx = args.indexOf('--vault');
-  if (vaultIdx !== -1 && args[vaultIdx + 1]) {
-    return args[vaultIdx + 1];
+  const idx = args.indexOf(flag);
+  if (idx !== -1 && args[idx + 1]) {
+    return args[idx + 1];
   }
 
-  // Fall back to environment variable
-  return process.env.VAULT_PATH;
+  return process.env[envVar] || undefined;
 }
 
 // Run the server
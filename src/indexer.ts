@@ -0,0 +1,372 @@
+/**
+ * Fallback indexer for notes Smart Connections hasn't embedded.
+ *
+ * Opt-in (LOCAL_INDEX). Some time after startup, and then periodically,
+ * it looks for vault notes with no embedding or a stale one, splits each
+ * into heading sections and embeds them with the query model and profile
+ * (as passages, without the query prefix). Vectors are saved to the
+ * sidecar store (localindex.ts) and swapped into the served data every
+ * minute or so, and when the pass ends. Once Smart Connections has current vectors for a note again,
+ * the local copy is dropped.
+ *
+ * Startup never waits for indexing: the first pass starts after a delay
+ * and runs one embedding at a time alongside queries.
+ */
+
+import * as crypto from 'node:crypto';
+import * as fs from 'node:fs';
+import { Config, log, validateNotePath } from './security.js';
+import { BlockEntry, EmbeddingEntry, SmartConnectionsData, disposeData, replaceLocalIndex } from './data.js';
+import { EmbedRequestError, QueryEmbedder, maxPassageChars, splitQuery } from './embeddings.js';
+import { LocalIndex, LocalNote, writeLocalIndex } from './localindex.js';
+import { checkStale } from './staleness.js';
+import { combineVectors } from './search.js';
+import { normalizedCopy, timeSlicer } from './vectors.js';
+import { listVaultNotesSliced } from './vault.js';
+
+// Let startup and the first queries go first
+const START_DELAY_MS = 10_000;
+
+// Minimum time between index rebuilds during a pass. Each rebuild re-merges
+// and re-indexes every note, so slow rebuilds space them out further.
+const COMMIT_INTERVAL_MS = 60_000;
+const COMMIT_COST_FACTOR = 10;
+
+// Larger notes are left to Smart Connections
+const MAX_NOTE_BYTES = 200_000;
+
+export type IndexUpdateHandler = (data: SmartConnectionsData) => void;
+
+interface Section {
+  headings: string[];
+  lines: [number, number]; // 1-based, inclusive
+  text: string;
+}
+
+/**
+ * Start indexing in the background.
+ *
+ * @param getData - Returns the data currently being served
+ * @param onUpdate - Called with new data as notes are indexed
+ * @returns A function that stops indexing
+ */
+export function startLocalIndexer(
+  config: Config,
+  embedder: QueryEmbedder,
+  getData: () => SmartConnectionsData,
+  onUpdate: IndexUpdateHandler
+): () => void {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | null = null;
+
+  const schedule = (delayMs: number): void => {
+    timer = setTimeout(run, delayMs);
+    timer.unref();
+  };
+
+  const run = async (): Promise<void> => {
+    timer = null;
+    try {
+      await indexPass(config, embedder, getData, onUpdate, controller.signal);
+    } catch (e) {
+      log('ERROR', 'local_index_failed', { error: String(e) });
+    }
+    if (!controller.signal.aborted) {
+      schedule(config.localIndex.rescanMinutes * 60_000);
+    }
+  };
+
+  log('INFO', 'local_index_scheduled', { delayMs: START_DELAY_MS, rescanMinutes: config.localIndex.rescanMinutes });
+  schedule(START_DELAY_MS);
+
+  return () => {
+    controller.abort();
+    if (timer) clearTimeout(timer);
+  };
+}
+
+/**
+ * Drop local notes that were deleted or that Smart Connections has
+ * caught up with, then embed every note still missing or stale.
+ */
+async function indexPass(
+  config: Config,
+  embedder: QueryEmbedder,
+  getData: () => SmartConnectionsData,
+  onUpdate: IndexUpdateHandler,
+  signal: AbortSignal
+): Promise<void> {
+  const started = Date.now();
+  const modelKey = embedder.getModelKey();
+  const data = getData();
+  if (data.modelInfo.modelKey !== modelKey) {
+    return; // The vault switched models; the embedder no longer matches
+  }
+
+  // The scan stats every note: done in slices so queries aren't held up
+  const pause = timeSlicer();
+  const notes = new Map(data.local?.notes);
+  const smartConnections = smartConnectionsEntries(data);
+  const vaultNotes = await listVaultNotesSliced(config, pause);
+  const inVault = new Set(vaultNotes);
+
+  let pruned = 0;
+  for (const notePath of [...notes.keys()]) {
+    if (signal.aborted) return;
+    if (!inVault.has(notePath) || isCurrent(config, smartConnections.get(notePath))) {
+      notes.delete(notePath);
+      pruned++;
+    }
+    await pause();
+  }
+
+  const pending: string[] = [];
+  for (const notePath of vaultNotes) {
+    if (signal.aborted) return;
+    await pause();
+    if (isCurrent(config, smartConnections.get(notePath))) continue;
+    const own = notes.get(notePath);
+    if (!own || checkStale(config, own.entry) !== false) {
+      pending.push(notePath);
+    }
+  }
+
+  if (pending.length === 0 && pruned === 0) {
+    return;
+  }
+  log('INFO', 'local_index_started', { pending: pending.length, pruned });
+
+  // The served data never changes underneath searches: each commit swaps
+  // in a new data object with a copy of the notes
+  let commitInterval = COMMIT_INTERVAL_MS;
+  let lastCommit = Date.now();
+  const commit = (): void => {
+    const commitStarted = Date.now();
+    const local: LocalIndex = { modelKey, notes: new Map(notes) };
+    writeLocalIndex(config, local);
+
+    const previous = getData();
+    if (previous.modelInfo.modelKey === modelKey) {
+      onUpdate(replaceLocalIndex(config, previous, local));
+      disposeData(previous);
+    }
+
+    lastCommit = Date.now();
+    commitInterval = Math.max(COMMIT_INTERVAL_MS, (lastCommit - commitStarted) * COMMIT_COST_FACTOR);
+  };
+
+  let indexed = 0;
+  let skipped = 0;
+  let failed = 0;
+  let uncommitted = pruned;
+
+  for (const notePath of pending) {
+    if (signal.aborted) break;
+
+    try {
+      const note = await embedNote(config, embedder, notePath, signal);
+      if (note) {
+        notes.set(notePath, note);
+        indexed++;
+        uncommitted++;
+      } else {
+        skipped++;
+      }
+    } catch (e) {
+      if (e instanceof EmbedRequestError) {
+        // Busy with queries or shutting down: the next pass picks up from here
+        log('WARN', 'local_index_paused', { reason: e.code });
+        break;
+      }
+      failed++;
+      log('WARN', 'local_index_note_failed', { path: notePath, error: String(e) });
+    }
+
+    if (uncommitted > 0 && Date.now() - lastCommit >= commitInterval) {
+      commit();
+      uncommitted = 0;
+    }
+  }
+
+  if (uncommitted > 0) {
+    commit();
+  }
+
+  log('INFO', 'local_index_finished', {
+    indexed,
+    pruned,
+    skipped,
+    failed,
+    localNotes: notes.size,
+    durationMs: Date.now() - started,
+  });
+}
+
+/**
+ * Smart Connections' own note entries, before local ones replaced them.
+ */
+function smartConnectionsEntries(data: SmartConnectionsData): Map<string, EmbeddingEntry> {
+  const entries = new Map<string, EmbeddingEntry>();
+  for (const file of data.files.values()) {
+    for (const [key, entry] of file.entries) {
+      entries.set(key, entry);
+    }
+  }
+  return entries;
+}
+
+/**
+ * Whether Smart Connections has a vector for the note that isn't known to
+ * be stale. Without recorded metadata its vector is given the benefit of
+ * the doubt.
+ */
+function isCurrent(config: Config, entry: EmbeddingEntry | undefined): boolean {
+  return entry !== undefined && checkStale(config, entry) !== true;
+}
+
+/**
+ * Embed a note's heading sections, and the note as their length-weighted
+ * mean. Returns null for notes that are too large or have no text.
+ */
+async function embedNote(
+  config: Config,
+  embedder: QueryEmbedder,
+  notePath: string,
+  signal: AbortSignal
+): Promise<LocalNote | null> {
+  // SECURITY: All reads go through path validation
+  const validation = validateNotePath(config, notePath);
+  if (!validation.valid) return null;
+
+  // Stat before reading: if the note changes mid-read, it looks stale
+  // on the next pass and is embedded again
+  const stats = fs.statSync(validation.resolvedPath!);
+  if (stats.size > MAX_NOTE_BYTES) return null;
+  const content = fs.readFileSync(validation.resolvedPath!, 'utf-8');
+
+  const dimensions = embedder.getDimensions();
+  const maxChars = maxPassageChars(embedder.getProfile());
+  const blocks: BlockEntry[] = [];
+  const parts: Array<{ vector: Float32Array; weight: number }> = [];
+  const usedKeys = new Set<string>();
+
+  for (const section of splitSections(content)) {
+    const chunks = splitQuery(section.text, maxChars);
+    if (chunks.length === 0) continue;
+
+    const vectors: Array<{ vector: number[]; weight: number }> = [];
+    for (const chunk of chunks) {
+      vectors.push({ vector: await embedder.embed(chunk, signal, 'passage'), weight: chunk.length });
+    }
+    const combined = combineVectors(vectors, dimensions);
+    if (!combined) continue;
+
+    const embedding = normalizedCopy(combined);
+    const weight = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    parts.push({ vector: embedding, weight });
+
+    // Text before the first heading counts towards the note only
+    if (section.headings.length > 0) {
+      blocks.push({
+        key: blockKey(notePath, section.headings, usedKeys),
+        notePath,
+        headings: section.headings,
+        lines: section.lines,
+        embedding,
+        origin: 'local',
+      });
+    }
+  }
+
+  const combined = combineVectors(parts, dimensions);
+  if (!combined) return null;
+
+  return {
+    entry: {
+      path: notePath,
+      embedding: normalizedCopy(combined),
+      source: {
+        mtime: Math.floor(stats.mtimeMs),
+        size: stats.size,
+        hash: crypto.createHash('sha256').update(content).digest('hex'),
+      },
+      origin: 'local',
+    },
+    blocks,
+  };
+}
+
+/**
+ * Block key in Smart Connections' format ("Note.md#Heading#Sub"). A
+ * repeated heading path gets a "#{n}" suffix, as Smart Connections does.
+ */
+function blockKey(notePath: string, headings: string[], used: Set<string>): string {
+  const base = `${notePath}#${headings.join('#')}`;
+  let key = base;
+  for (let n = 2; used.has(key); n++) {
+    key = `${base}#{${n}}`;
+  }
+  used.add(key);
+  return key;
+}
+
+/**
+ * Split a note into sections at its headings. Frontmatter is skipped,
+ * and "#" lines inside fenced code blocks are not headings.
+ */
+function splitSections(content: string): Section[] {
+  const lines = content.split(/\r?\n/);
+  const sections: Section[] = [];
+  const stack: Array<{ level: number; text: string }> = [];
+
+  let start = 0;
+  if (lines[0] === '---') {
+    const end = lines.indexOf('---', 1);
+    if (end !== -1) start = end + 1;
+  }
+
+  let current: Section = { headings: [], lines: [start + 1, start + 1], text: '' };
+  let fence: string | null = null;
+  const body: string[] = [];
+
+  const close = (lastLine: number): void => {
+    // Blank lines between sections belong to neither
+    while (body.length > 1 && !body[body.length - 1].trim()) {
+      body.pop();
+      lastLine--;
+    }
+    current.lines = [current.lines[0], lastLine];
+    current.text = body.join('\n').trim();
+    if (current.text) sections.push(current);
+    body.length = 0;
+  };
+
+  for (let i = start; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fenceMatch = /^\s*(```|~~~)/.exec(line);
+    if (fenceMatch) {
+      if (fence === null) {
+        fence = fenceMatch[1];
+      } else if (fenceMatch[1] === fence) {
+        fence = null;
+      }
+    }
+
+    const heading = fence === null ? /^(#{1,6})\s+(.+?)\s*#*\s*$/.exec(line) : null;
+    if (heading) {
+      close(i);
+      const level = heading[1].length;
+      while (stack.length > 0 && stack[stack.length - 1].level >= level) {
+        stack.pop();
+      }
+      stack.push({ level, text: heading[2] });
+      current = { headings: stack.map(h => h.text), lines: [i + 1, i + 1], text: '' };
+    }
+
+    body.push(line);
+  }
+  close(lines.length);
+
+  return sections;
+}
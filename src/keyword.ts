@@ -0,0 +1,146 @@
+/**
+ * Keyword search module (BM25).
+ *
+ * Builds an inverted index from the vault's .md files so exact
+ * identifiers, ticket numbers and rare proper nouns can be found even when
+ * embeddings blur them.
+ *
+ * The index is fed by the VaultScanner (vault.ts), which reads notes
+ * through validateNotePath: it is built on first use and then refreshed
+ * in the background, re-reading only notes whose mtime or size changed.
+ */
+
+import { VaultNoteConsumer, VaultScanner } from './vault.js';
+
+// BM25 parameters (standard defaults)
+const K1 = 1.2;
+const B = 0.75;
+
+// Don't index more than this much of any single note
+const MAX_INDEXED_CHARS = 1024 * 1024;
+
+export interface KeywordHit {
+  path: string;
+  score: number;
+}
+
+interface IndexedDoc {
+  length: number; // Token count
+  terms: Map<string, number>; // Term frequencies
+}
+
+export class KeywordIndex implements VaultNoteConsumer {
+  private scanner: VaultScanner;
+  private docs = new Map<string, IndexedDoc>();
+  private postings = new Map<string, Map<string, number>>(); // term -> path -> tf
+  private totalLength = 0;
+
+  constructor(scanner: VaultScanner) {
+    this.scanner = scanner;
+    scanner.addConsumer(this);
+  }
+
+  get size(): number {
+    return this.docs.size;
+  }
+
+  /**
+   * Search notes by BM25 score, best first.
+   */
+  async search(
+    query: string,
+    options: { limit: number; filter?: (notePath: string) => boolean }
+  ): Promise<KeywordHit[]> {
+    await this.scanner.ready();
+
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0 || this.docs.size === 0) {
+      return [];
+    }
+
+    const avgLength = this.totalLength / this.docs.size;
+    const scores = new Map<string, number>();
+
+    for (const term of terms) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      const idf = Math.log(1 + (this.docs.size - posting.size + 0.5) / (posting.size + 0.5));
+
+      for (const [notePath, tf] of posting) {
+        if (options.filter && !options.filter(notePath)) continue;
+
+        const length = this.docs.get(notePath)!.length;
+        const norm = tf + K1 * (1 - B + B * (length / avgLength));
+        scores.set(notePath, (scores.get(notePath) ?? 0) + idf * (tf * (K1 + 1)) / norm);
+      }
+    }
+
+    return [...scores.entries()]
+      .map(([notePath, score]) => ({ path: notePath, score }))
+      .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path))
+      .slice(0, options.limit);
+  }
+
+  update(notePath: string, content: string): void {
+    this.remove(notePath);
+
+    const tokens = tokenize(content.slice(0, MAX_INDEXED_CHARS));
+    const terms = new Map<string, number>();
+    for (const token of tokens) {
+      terms.set(token, (terms.get(token) ?? 0) + 1);
+    }
+
+    for (const [term, tf] of terms) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+      }
+      posting.set(notePath, tf);
+    }
+
+    this.docs.set(notePath, { length: tokens.length, terms });
+    this.totalLength += tokens.length;
+  }
+
+  remove(notePath: string): void {
+    const doc = this.docs.get(notePath);
+    if (!doc) return;
+
+    for (const term of doc.terms.keys()) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+      posting.delete(notePath);
+      if (posting.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+
+    this.docs.delete(notePath);
+    this.totalLength -= doc.length;
+  }
+}
+
+/**
+ * Split text into lowercase terms.
+ *
+ * Compound identifiers like "PROJ-1234" or "snake_case" are kept whole
+ * (so they match exactly) and also split into their parts.
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  const compound = /[\p{L}\p{N}]+(?:[-_.:/][\p{L}\p{N}]+)*/gu;
+
+  for (const match of text.toLowerCase().matchAll(compound)) {
+    const token = match[0];
+    tokens.push(token);
+
+    const parts = token.split(/[-_.:/]/);
+    if (parts.length > 1) {
+      tokens.push(...parts);
+    }
+  }
+
+  return tokens;
+}
@@ -0,0 +1,296 @@
+/**
+ * Link graph of the vault's notes.
+ *
+ * Parses [[wikilinks]], ![[embeds]] and markdown [links](Note.md) from
+ * every .md file and resolves them the way
+ * Obsidian does: markdown links relative to the linking note first, then
+ * by path when the link has one, otherwise by file name, preferring the
+ * linking note's folder and then the shortest path. Links to attachments
+ * (images, PDFs, ...) are not part of the graph.
+ *
+ * Like the keyword index, the graph is fed by the VaultScanner (vault.ts):
+ * it is built on first use and then refreshed in the background, and links
+ * are re-resolved after each scan that changed any note.
+ */
+
+import * as path from 'node:path';
+import { VaultNoteConsumer, VaultScanner } from './vault.js';
+
+// Queries for notes the graph doesn't know rescan the vault at most this often
+const FORCED_REFRESH_INTERVAL_MS = 5000;
+
+// Link targets with these extensions are attachments, not notes
+const ATTACHMENT_EXTENSIONS = new Set([
+  '.png', '.jpg', '.jpeg', '.gif', '.bmp', '.svg', '.webp', '.avif',
+  '.pdf', '.mp3', '.wav', '.m4a', '.ogg', '.flac', '.webm', '.mp4', '.mov', '.mkv',
+  '.canvas', '.base', '.excalidraw',
+]);
+
+export interface NoteLinks {
+  resolved: string[]; // Vault notes this note links to
+  unresolved: string[]; // Link targets with no matching note
+}
+
+export interface ParsedLink {
+  target: string; // Without heading, block reference or alias
+  kind: 'wikilink' | 'embed' | 'markdown';
+}
+
+export interface Neighbourhood {
+  nodes: Array<{ path: string; distance: number }>; // Breadth-first order
+  edges: Array<{ from: string; to: string }>; // Links between listed nodes
+  truncated: boolean; // maxNodes was reached
+}
+
+/**
+ * Queries answer from the graph as last resolved; await ready() first so
+ * the vault has been scanned at least once.
+ */
+export class LinkGraph implements VaultNoteConsumer {
+  private scanner: VaultScanner;
+  private notes = new Map<string, ParsedLink[]>();
+  private forward = new Map<string, NoteLinks>();
+  private backward = new Map<string, Set<string>>();
+
+  constructor(scanner: VaultScanner) {
+    this.scanner = scanner;
+    scanner.addConsumer(this);
+  }
+
+  get size(): number {
+    return this.notes.size;
+  }
+
+  /**
+   * Resolves once the graph is built; later refreshes run in the background.
+   */
+  ready(): Promise<void> {
+    return this.scanner.ready();
+  }
+
+  /**
+   * Rescan the vault now, or wait for the scan in progress. Rate limited,
+   * so repeated lookups of a note the graph can't see (e.g. a symlink)
+   * don't each walk the vault.
+   */
+  refresh(): Promise<void> {
+    return this.scanner.scan(FORCED_REFRESH_INTERVAL_MS);
+  }
+
+  has(notePath: string): boolean {
+    return this.notes.has(notePath);
+  }
+
+  /**
+   * Notes linked from a note.
+   */
+  outlinks(notePath: string): NoteLinks {
+    return this.forward.get(notePath) ?? { resolved: [], unresolved: [] };
+  }
+
+  /**
+   * Notes linking to a note.
+   */
+  backlinks(notePath: string): string[] {
+    return [...(this.backward.get(notePath) ?? [])].sort();
+  }
+
+  /**
+   * Notes within `depth` links of a note, following outlinks, backlinks
+   * or both.
+   */
+  neighbourhood(
+    notePath: string,
+    options: { depth: number; direction: 'out' | 'in' | 'both'; maxNodes: number }
+  ): Neighbourhood {
+    const { depth, direction, maxNodes } = options;
+    const distances = new Map<string, number>([[notePath, 0]]);
+    let frontier = [notePath];
+    let truncated = false;
+
+    for (let distance = 1; distance <= depth && frontier.length > 0 && !truncated; distance++) {
+      const next: string[] = [];
+      for (const current of frontier) {
+        const neighbours = [
+          ...(direction !== 'in' ? this.outlinks(current).resolved : []),
+          ...(direction !== 'out' ? this.backlinks(current) : []),
+        ];
+        for (const neighbour of neighbours) {
+          if (distances.has(neighbour)) continue;
+          if (distances.size >= maxNodes) {
+            truncated = true;
+            break;
+          }
+          distances.set(neighbour, distance);
+          next.push(neighbour);
+        }
+        if (truncated) break;
+      }
+      frontier = next;
+    }
+
+    const edges: Array<{ from: string; to: string }> = [];
+    for (const from of distances.keys()) {
+      for (const to of this.outlinks(from).resolved) {
+        if (distances.has(to)) edges.push({ from, to });
+      }
+    }
+
+    return {
+      nodes: [...distances].map(([nodePath, distance]) => ({ path: nodePath, distance })),
+      edges,
+      truncated,
+    };
+  }
+
+  update(notePath: string, content: string): void {
+    this.notes.set(notePath, parseLinks(content));
+  }
+
+  remove(notePath: string): void {
+    this.notes.delete(notePath);
+  }
+
+  /**
+   * Any added or removed note can change how other notes' links resolve.
+   */
+  scanned(): void {
+    this.resolveAll();
+  }
+
+  private resolveAll(): void {
+    // Lowercased file name (without .md) -> notes with that name
+    const byName = new Map<string, string[]>();
+    const byPath = new Map<string, string>();
+    for (const notePath of this.notes.keys()) {
+      const name = path.posix.basename(notePath, '.md').toLowerCase();
+      const sameName = byName.get(name);
+      if (sameName) {
+        sameName.push(notePath);
+      } else {
+        byName.set(name, [notePath]);
+      }
+      byPath.set(notePath.toLowerCase(), notePath);
+    }
+
+    this.forward = new Map();
+    this.backward = new Map();
+
+    for (const [source, links] of this.notes) {
+      const resolved = new Set<string>();
+      const unresolved = new Set<string>();
+
+      for (const link of links) {
+        const note = resolveLink(link, source, byName, byPath);
+        if (note === null) {
+          unresolved.add(link.target);
+        } else if (note !== source) {
+          resolved.add(note);
+        }
+      }
+
+      this.forward.set(source, { resolved: [...resolved].sort(), unresolved: [...unresolved].sort() });
+      for (const note of resolved) {
+        let sources = this.backward.get(note);
+        if (!sources) {
+          sources = new Set();
+          this.backward.set(note, sources);
+        }
+        sources.add(source);
+      }
+    }
+  }
+}
+
+/**
+ * Extract links from markdown. Headings ("#...") and block references
+ * ("#^...") are dropped, as are aliases ("|..."). Links inside code,
+ * external URLs and attachments are ignored.
+ */
+export function parseLinks(content: string): ParsedLink[] {
+  const text = stripCode(content);
+  const links: ParsedLink[] = [];
+
+  const add = (raw: string, kind: ParsedLink['kind']) => {
+    const target = raw.split('#')[0].trim();
+    if (!target) return;
+
+    const extension = path.posix.extname(target).toLowerCase();
+    if (ATTACHMENT_EXTENSIONS.has(extension)) return;
+
+    links.push({ target, kind });
+  };
+
+  // [[target]], [[target|alias]], [[target#heading]], ![[embed]]
+  for (const match of text.matchAll(/(!?)\[\[([^\[\]\n]+?)\]\]/g)) {
+    add(match[2].split('|')[0], match[1] ? 'embed' : 'wikilink');
+  }
+
+  // [text](target), [text](<target with spaces>), [text](target "title")
+  for (const match of text.matchAll(/!?\[[^\]\n]*\]\(\s*(?:<([^>\n]+)>|([^)\s]+))(?:\s+"[^"\n]*")?\s*\)/g)) {
+    const raw = match[1] ?? match[2];
+    // URLs (https:, mailto:, obsidian:, ...) and same-note anchors
+    if (/^[a-z][a-z0-9+.-]*:/i.test(raw) || raw.startsWith('#')) continue;
+
+    let decoded: string;
+    try {
+      decoded = decodeURIComponent(raw);
+    } catch {
+      decoded = raw;
+    }
+    add(decoded, 'markdown');
+  }
+
+  return links;
+}
+
+/**
+ * Resolve a link to a note path, or null if nothing matches.
+ *
+ * Markdown links are first tried relative to the linking note. Links with
+ * a path match a note at that path from the vault root, or else any note
+ * whose path ends with it. Bare names prefer a note in the linking note's
+ * folder, then the note with the shortest path.
+ */
+function resolveLink(
+  link: ParsedLink,
+  source: string,
+  byName: Map<string, string[]>,
+  byPath: Map<string, string>
+): string | null {
+  const normalized = link.target.replace(/^\/+/, '').replace(/\.md$/i, '').toLowerCase();
+  if (!normalized) return null;
+
+  if (link.kind === 'markdown' && !link.target.startsWith('/')) {
+    const relative = path.posix.normalize(path.posix.join(path.posix.dirname(source), normalized));
+    // Links can't point above the vault root
+    const match = relative.startsWith('..') ? undefined : byPath.get(`${relative.toLowerCase()}.md`);
+    if (match) return match;
+  }
+
+  const exact = byPath.get(`${normalized}.md`);
+  if (exact) return exact;
+
+  const name = path.posix.basename(normalized);
+  const candidates = (byName.get(name) ?? []).filter(
+    notePath => !normalized.includes('/') || notePath.toLowerCase().endsWith(`/${normalized}.md`)
+  );
+  if (candidates.length === 0) return null;
+
+  const sourceFolder = path.posix.dirname(source);
+  const sameFolder = candidates.find(notePath => path.posix.dirname(notePath) === sourceFolder);
+  if (sameFolder) return sameFolder;
+
+  return [...candidates].sort(
+    (a, b) => a.split('/').length - b.split('/').length || a.length - b.length || a.localeCompare(b)
+  )[0];
+}
+
+/**
+ * Blank out fenced code blocks and inline code, where brackets aren't links.
+ */
+function stripCode(content: string): string {
+  return content
+    .replace(/^(```|~~~)[^\n]*\n[\s\S]*?^\1[^\n]*$/gm, '')
+    .replace(/`[^`\n]*`/g, '');
+}
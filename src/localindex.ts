@@ -0,0 +1,147 @@
+/**
+ * Sidecar store for vectors computed by the fallback indexer (indexer.ts).
+ *
+ * Kept apart from .smart-env and the snapshot: Smart Connections owns
+ * .smart-env, and the snapshot mirrors it. Each note stores the mtime,
+ * size and SHA-256 of the text it was embedded from, so staleness checks
+ * work the same as for Smart Connections' own entries.
+ *
+ * SECURITY: The store lives in config.cacheDir, which is validated to be
+ * outside the vault. Nothing is ever written to the vault.
+ */
+
+import * as crypto from 'node:crypto';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { Config, log } from './security.js';
+import { BlockEntry, EmbeddingEntry, SourceInfo } from './data.js';
+
+const VERSION = 1;
+
+export interface LocalNote {
+  entry: EmbeddingEntry;
+  blocks: BlockEntry[]; // One per heading section
+}
+
+export interface LocalIndex {
+  modelKey: string;
+  notes: Map<string, LocalNote>; // Keyed by note path
+}
+
+interface StoreFile {
+  version: number;
+  modelKey: string;
+  notes: Array<{
+    path: string;
+    source: SourceInfo;
+    vector: string; // Base64 float32
+    blocks: Array<{
+      key: string;
+      headings: string[];
+      lines: [number, number];
+      vector: string;
+    }>;
+  }>;
+}
+
+/**
+ * Load the store for the given model. A missing, unreadable or outdated
+ * store, or one written for another model, gives an empty index.
+ */
+export function readLocalIndex(config: Config, modelKey: string): LocalIndex {
+  const index: LocalIndex = { modelKey, notes: new Map() };
+  const filePath = storePath(config);
+  if (!fs.existsSync(filePath)) {
+    return index;
+  }
+
+  try {
+    const file = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as StoreFile;
+    if (file.version !== VERSION) {
+      return index; // Written by another version; notes are embedded again
+    }
+    if (file.modelKey !== modelKey) {
+      log('INFO', 'local_index_model_changed', { cached: file.modelKey, current: modelKey });
+      return index;
+    }
+
+    for (const note of file.notes) {
+      index.notes.set(note.path, {
+        entry: { path: note.path, embedding: decodeVector(note.vector), source: note.source, origin: 'local' },
+        blocks: note.blocks.map(b => ({
+          key: b.key,
+          notePath: note.path,
+          headings: b.headings,
+          lines: b.lines,
+          embedding: decodeVector(b.vector),
+          origin: 'local',
+        })),
+      });
+    }
+
+    log('INFO', 'local_index_loaded', { notes: index.notes.size });
+  } catch (e) {
+    log('WARN', 'local_index_invalid', { error: String(e) });
+    index.notes.clear();
+  }
+
+  return index;
+}
+
+/**
+ * Write the store. Written to a temp file and renamed, like the snapshot;
+ * failures are logged and otherwise ignored.
+ */
+export function writeLocalIndex(config: Config, index: LocalIndex): void {
+  const filePath = storePath(config);
+  const file: StoreFile = {
+    version: VERSION,
+    modelKey: index.modelKey,
+    notes: [...index.notes.values()].map(({ entry, blocks }) => ({
+      path: entry.path,
+      source: entry.source ?? {},
+      vector: encodeVector(entry.embedding),
+      blocks: blocks.map(b => ({
+        key: b.key,
+        headings: b.headings,
+        lines: b.lines!,
+        vector: encodeVector(b.embedding),
+      })),
+    })),
+  };
+
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  try {
+    fs.mkdirSync(config.cacheDir, { recursive: true, mode: 0o700 });
+    fs.writeFileSync(tempPath, JSON.stringify(file), { mode: 0o600 });
+    fs.renameSync(tempPath, filePath);
+  } catch (e) {
+    log('WARN', 'local_index_write_failed', { error: String(e) });
+    try {
+      fs.rmSync(tempPath, { force: true });
+    } catch {
+      // Nothing more to do
+    }
+  }
+}
+
+function encodeVector(vector: Float32Array): string {
+  return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength).toString('base64');
+}
+
+function decodeVector(encoded: string): Float32Array {
+  const bytes = Buffer.from(encoded, 'base64');
+  return new Float32Array(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.length));
+}
+
+/**
+ * One file per vault, named like the snapshot.
+ */
+function storePath(config: Config): string {
+  const vaultId = crypto
+    .createHash('sha256')
+    .update(config.resolvedVaultPath)
+    .digest('hex')
+    .slice(0, 16);
+  return path.join(config.cacheDir, `local-index-${vaultId}.json`);
+}
@@ -0,0 +1,108 @@
+/**
+ * Where Transformers.js models are loaded from.
+ *
+ * A model is looked up in MODEL_PATH (laid out as <dir>/<model id>/...,
+ * like a Hugging Face repo checkout), then in the Transformers.js cache,
+ * and only then downloaded from the Hugging Face Hub. In offline mode the
+ * Hub is never contacted: a model missing locally fails with the list of
+ * files that were expected and where.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { env } from '@huggingface/transformers';
+import { ModelLoading, log } from './security.js';
+
+export interface ModelSource {
+  location: 'local' | 'cache' | 'hub' | 'ollama';
+  path?: string; // Model directory, or the Ollama endpoint
+}
+
+// What an fp32 ONNX model needs, relative to its directory
+const REQUIRED_FILES = ['config.json', 'tokenizer.json', 'tokenizer_config.json', 'onnx/model.onnx'];
+
+/**
+ * Apply the loading settings to Transformers.js. Called once at startup,
+ * before any model is loaded.
+ */
+export function configureModelLoading(loading: ModelLoading): void {
+  if (loading.modelDir) {
+    env.localModelPath = loading.modelDir + path.sep;
+  }
+  if (loading.offline) {
+    // SECURITY: Transformers.js refuses every remote request from here on
+    env.allowRemoteModels = false;
+  }
+  log('INFO', 'model_loading_configured', {
+    modelDir: loading.modelDir ?? null,
+    cacheDir: env.cacheDir,
+    offline: loading.offline,
+  });
+}
+
+/**
+ * Find where a model will be loaded from: a local model directory (an
+ * absolute path, or <modelDir>/<id>), the cache, or the Hub.
+ *
+ * Throws if a model directory is incomplete, or in offline mode if no
+ * complete local copy exists, naming the files each location is missing.
+ */
+export function locateModel(modelKey: string, loading: ModelLoading): ModelSource {
+  const candidates: Array<{ location: 'local' | 'cache'; dir: string }> = [];
+  if (path.isAbsolute(modelKey)) {
+    candidates.push({ location: 'local', dir: modelKey });
+  } else {
+    if (loading.modelDir) candidates.push({ location: 'local', dir: path.join(loading.modelDir, modelKey) });
+    if (env.cacheDir) candidates.push({ location: 'cache', dir: path.join(env.cacheDir, modelKey) });
+  }
+
+  const missing = candidates.map(({ location, dir }) => ({
+    location,
+    dir,
+    files: REQUIRED_FILES.filter(file => !fs.existsSync(path.join(dir, file))),
+  }));
+
+  const complete = missing.find(m => m.files.length === 0);
+  if (complete) {
+    return { location: complete.location, path: complete.dir };
+  }
+
+  // A local directory or offline mode leaves nowhere else to look
+  if (path.isAbsolute(modelKey) || loading.offline) {
+    const where = missing.map(m => `${m.dir} (missing ${m.files.join(', ')})`).join('; ');
+    const hint = path.isAbsolute(modelKey)
+      ? ''
+      : ` Download them from https://huggingface.co/${modelKey} and place them in ${path.join(loading.modelDir ?? '<MODEL_PATH>', modelKey)}.`;
+    throw new Error(
+      `Model ${modelKey} is not available locally${loading.offline ? ' (offline mode)' : ''}. ` +
+      `Expected ${REQUIRED_FILES.join(', ')} in: ${where || 'no model directory configured'}.${hint}`
+    );
+  }
+
+  return { location: 'hub' };
+}
+
+/**
+ * Run a Transformers.js loader against a located model. Local and cached
+ * models are loaded with `local_files_only`, so a file that went missing
+ * is an error rather than a download.
+ */
+export async function loadFromSource<T>(
+  modelKey: string,
+  source: ModelSource,
+  load: (modelId: string, options: { local_files_only: boolean }) => Promise<T>
+): Promise<T> {
+  if (source.location !== 'local') {
+    return load(modelKey, { local_files_only: source.location === 'cache' });
+  }
+
+  // Transformers.js resolves local models as <localModelPath>/<id>
+  const modelId = path.isAbsolute(modelKey) ? path.basename(modelKey) : modelKey;
+  const previousLocalPath = env.localModelPath;
+  try {
+    env.localModelPath = source.path!.slice(0, source.path!.length - modelId.length);
+    return await load(modelId, { local_files_only: true });
+  } finally {
+    env.localModelPath = previousLocalPath;
+  }
+}
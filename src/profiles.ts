@@ -0,0 +1,101 @@
+/**
+ * Embedding model profiles.
+ *
+ * A profile says how to embed a query so it lands in the same space as
+ * the vault's note vectors: which pooling and normalization the model
+ * uses, whether queries take an instruction prefix, how many tokens the
+ * model reads and how many dimensions it produces.
+ *
+ * Smart Connections mean-pools and normalizes every model, so the
+ * built-in profiles do too; pooling only needs changing for vectors
+ * produced some other way. Profiles can be added or overridden with a
+ * JSON file keyed by model key (MODEL_PROFILES).
+ */
+
+import * as fs from 'node:fs';
+import { z } from 'zod';
+import { log } from './security.js';
+
+export interface ModelProfile {
+  modelKey: string;
+  dimensions: number; // Used when the index has no vectors to infer them from
+  pooling: 'mean' | 'cls';
+  normalize: boolean;
+  maxTokens: number; // Model input limit; longer queries are chunked
+  queryPrefix: string; // Instruction prepended to queries (not to notes)
+}
+
+// Recommended by BAAI for short queries against passages
+const BGE_QUERY_PREFIX = 'Represent this sentence for searching relevant passages: ';
+
+const BUILTIN_PROFILES: ModelProfile[] = [
+  profile('TaylorAI/bge-micro-v2', 384, 512),
+  profile('sentence-transformers/all-MiniLM-L6-v2', 384, 256),
+  profile('BAAI/bge-small-en-v1.5', 384, 512, BGE_QUERY_PREFIX),
+  profile('BAAI/bge-base-en-v1.5', 768, 512, BGE_QUERY_PREFIX),
+  profile('BAAI/bge-large-en-v1.5', 1024, 512, BGE_QUERY_PREFIX),
+];
+
+// Smart Connections' default model, and the fallback for unknown models
+const DEFAULT_PROFILE = BUILTIN_PROFILES[0];
+
+const ProfileFileSchema = z.record(
+  z.string(),
+  z.object({
+    dimensions: z.number().int().min(1).max(8192),
+    pooling: z.enum(['mean', 'cls']),
+    normalize: z.boolean(),
+    maxTokens: z.number().int().min(16).max(32768),
+    queryPrefix: z.string().max(200),
+  }).partial().strict()
+);
+
+const profiles = new Map(BUILTIN_PROFILES.map(p => [p.modelKey, p]));
+const warnedUnknown = new Set<string>();
+
+/**
+ * Add or override profiles from a JSON file, e.g.
+ *   { "nomic-embed-text": { "dimensions": 768, "queryPrefix": "search_query: " } }
+ * Fields left out keep the built-in (or default) values. Throws on an
+ * unreadable or invalid file.
+ */
+export function loadModelProfiles(filePath: string): void {
+  let parsed: z.infer<typeof ProfileFileSchema>;
+  try {
+    const result = ProfileFileSchema.safeParse(JSON.parse(fs.readFileSync(filePath, 'utf-8')));
+    if (!result.success) {
+      throw new Error(result.error.message);
+    }
+    parsed = result.data;
+  } catch (e) {
+    throw new Error(`Invalid model profiles file ${filePath}: ${e}`);
+  }
+
+  for (const [modelKey, overrides] of Object.entries(parsed)) {
+    const base = profiles.get(modelKey) ?? { ...DEFAULT_PROFILE, modelKey };
+    profiles.set(modelKey, { ...base, ...overrides });
+  }
+
+  log('INFO', 'model_profiles_loaded', { file: filePath, profiles: Object.keys(parsed).length });
+}
+
+/**
+ * Profile for a model. Unknown models get the defaults (mean pooling,
+ * normalized, no prefix, 384 dimensions), with a warning.
+ */
+export function getModelProfile(modelKey: string): ModelProfile {
+  const known = profiles.get(modelKey);
+  if (known) {
+    return known;
+  }
+
+  if (!warnedUnknown.has(modelKey)) {
+    warnedUnknown.add(modelKey);
+    log('WARN', 'unknown_model_profile', { modelKey, defaulting: DEFAULT_PROFILE.modelKey });
+  }
+  return { ...DEFAULT_PROFILE, modelKey };
+}
+
+function profile(modelKey: string, dimensions: number, maxTokens: number, queryPrefix: string = ''): ModelProfile {
+  return { modelKey, dimensions, pooling: 'mean', normalize: true, maxTokens, queryPrefix };
+}
@@ -0,0 +1,252 @@
+/**
+ * Cache of query embeddings.
+ *
+ * Agents repeat the same queries within a session and across restarts.
+ * CachedEmbedder wraps a query embedder with an in-memory LRU keyed by the
+ * model's query profile and the normalized query text, and can persist it to
+ * config.cacheDir so repeated queries skip the model after a restart.
+ *
+ * The cache file stores hashed keys (never the query text) and the model
+ * key it was written for; a file written for another model is discarded.
+ *
+ * SECURITY: The cache file lives in config.cacheDir, which is validated
+ * to be outside the vault. Nothing is ever written to the vault.
+ */
+
+import * as crypto from 'node:crypto';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { Config, QueryCacheConfig, log } from './security.js';
+import { EmbedKind, QueryEmbedder } from './embeddings.js';
+import { ModelProfile } from './profiles.js';
+import { ModelSource } from './models.js';
+
+const VERSION = 1;
+
+// Batch disk writes: a burst of new queries is written once
+const WRITE_DELAY_MS = 2000;
+
+export interface QueryCacheStats {
+  entries: number;
+  capacity: number;
+  persistent: boolean;
+  hits: number;
+  misses: number;
+}
+
+interface CacheFile {
+  version: number;
+  modelKey: string;
+  entries: Array<[string, string]>; // Key, base64 float32 vector; oldest first
+}
+
+/**
+ * Query embedder with an LRU cache in front of another embedder.
+ */
+export class CachedEmbedder implements QueryEmbedder {
+  private inner: QueryEmbedder;
+  private config: Config;
+  private options: QueryCacheConfig;
+  private entries = new Map<string, Float32Array>(); // Least recently used first
+  private hits = 0;
+  private misses = 0;
+  private writeTimer: NodeJS.Timeout | null = null;
+
+  constructor(inner: QueryEmbedder, config: Config, options: QueryCacheConfig = config.queryCache) {
+    this.inner = inner;
+    this.config = config;
+    this.options = options;
+    if (options.persist && options.size > 0) {
+      this.load();
+    }
+  }
+
+  initialize(): Promise<void> {
+    return this.inner.initialize();
+  }
+
+  isReady(): boolean {
+    return this.inner.isReady();
+  }
+
+  getModelKey(): string {
+    return this.inner.getModelKey();
+  }
+
+  getDimensions(): number {
+    return this.inner.getDimensions();
+  }
+
+  getProfile(): ModelProfile {
+    return this.inner.getProfile();
+  }
+
+  getSource(): ModelSource | null {
+    return this.inner.getSource();
+  }
+
+  /**
+   * Embed a query, reusing the cached vector for a previously seen query.
+   * Passages are not cached.
+   */
+  async embed(text: string, signal?: AbortSignal, kind: EmbedKind = 'query'): Promise<number[]> {
+    if (kind === 'passage') {
+      return this.inner.embed(text, signal, kind);
+    }
+
+    const query = normalizeQuery(text);
+    if (this.options.size === 0) {
+      return this.inner.embed(query, signal);
+    }
+
+    const key = cacheKey(this.getProfile(), query);
+    const cached = this.entries.get(key);
+    if (cached) {
+      this.hits++;
+      this.entries.delete(key);
+      this.entries.set(key, cached);
+      return Array.from(cached);
+    }
+
+    this.misses++;
+    const vector = Float32Array.from(await this.inner.embed(query, signal));
+    this.entries.set(key, vector);
+    if (this.entries.size > this.options.size) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+    this.scheduleWrite();
+
+    return Array.from(vector);
+  }
+
+  getStats(): QueryCacheStats {
+    return {
+      entries: this.entries.size,
+      capacity: this.options.size,
+      persistent: this.options.persist,
+      hits: this.hits,
+      misses: this.misses,
+    };
+  }
+
+  /**
+   * Write pending entries to disk now (e.g. on shutdown).
+   */
+  flush(): void {
+    if (this.writeTimer) {
+      clearTimeout(this.writeTimer);
+      this.writeTimer = null;
+      this.write();
+    }
+  }
+
+  /**
+   * Flush pending entries and close the wrapped embedder.
+   */
+  close(): void {
+    this.flush();
+    this.inner.close?.();
+  }
+
+  private scheduleWrite(): void {
+    if (!this.options.persist || this.writeTimer) {
+      return;
+    }
+    this.writeTimer = setTimeout(() => {
+      this.writeTimer = null;
+      this.write();
+    }, WRITE_DELAY_MS);
+    this.writeTimer.unref();
+  }
+
+  private load(): void {
+    const filePath = cacheFilePath(this.config);
+    if (!fs.existsSync(filePath)) {
+      return;
+    }
+
+    try {
+      const file = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as CacheFile;
+      if (file.version !== VERSION) {
+        return; // Written by another version; rebuilt as queries come in
+      }
+      if (file.modelKey !== this.getModelKey()) {
+        log('INFO', 'query_cache_model_changed', { cached: file.modelKey, current: this.getModelKey() });
+        return;
+      }
+
+      const dimensions = this.getDimensions();
+      for (const [key, encoded] of file.entries.slice(-this.options.size)) {
+        const bytes = Buffer.from(encoded, 'base64');
+        if (bytes.length !== dimensions * 4) continue;
+        this.entries.set(key, new Float32Array(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.length)));
+      }
+
+      log('INFO', 'query_cache_loaded', { entries: this.entries.size });
+    } catch (e) {
+      log('WARN', 'query_cache_invalid', { error: String(e) });
+      this.entries.clear();
+    }
+  }
+
+  /**
+   * Written to a temp file and renamed, like the snapshot. Failures are
+   * logged and otherwise ignored.
+   */
+  private write(): void {
+    const filePath = cacheFilePath(this.config);
+    const file: CacheFile = {
+      version: VERSION,
+      modelKey: this.getModelKey(),
+      entries: [...this.entries].map(([key, vector]) => [
+        key,
+        Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength).toString('base64'),
+      ]),
+    };
+
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    try {
+      fs.mkdirSync(this.config.cacheDir, { recursive: true, mode: 0o700 });
+      fs.writeFileSync(tempPath, JSON.stringify(file), { mode: 0o600 });
+      fs.renameSync(tempPath, filePath);
+    } catch (e) {
+      log('WARN', 'query_cache_write_failed', { error: String(e) });
+      try {
+        fs.rmSync(tempPath, { force: true });
+      } catch {
+        // Nothing more to do
+      }
+    }
+  }
+}
+
+/**
+ * Queries that differ only in whitespace or Unicode form share an entry.
+ */
+function normalizeQuery(text: string): string {
+  return text.normalize('NFC').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Keyed by everything that changes a query's vector: the model, how its
+ * output is pooled, and the query prefix.
+ */
+function cacheKey(profile: ModelProfile, query: string): string {
+  const { modelKey, pooling, normalize, queryPrefix } = profile;
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify([modelKey, pooling, normalize, queryPrefix, query]))
+    .digest('hex');
+}
+
+/**
+ * One file per vault, named like the snapshot.
+ */
+function cacheFilePath(config: Config): string {
+  const vaultId = crypto
+    .createHash('sha256')
+    .update(config.resolvedVaultPath)
+    .digest('hex')
+    .slice(0, 16);
+  return path.join(config.cacheDir, `queries-${vaultId}.json`);
+}
@@ -0,0 +1,275 @@
+/**
+ * Cross-encoder reranking of search results.
+ *
+ * Bi-encoder cosine scores are noisy at the top of the list. A small
+ * cross-encoder (e.g. Xenova/ms-marco-MiniLM-L-6-v2) reads the query and
+ * each candidate's text together and scores their relevance directly.
+ * It runs through the same Transformers.js stack as the Embedder and is
+ * located the same way (see models.ts); a local model directory is loaded
+ * without network access. Like query embeddings, it runs in a worker
+ * thread (RerankPool) unless EMBED_WORKERS is 0.
+ *
+ * Reranking is optional: if the model can't load, or fails on a query,
+ * results keep their cosine ranking.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import {
+  AutoModelForSequenceClassification,
+  AutoTokenizer,
+  PreTrainedModel,
+  PreTrainedTokenizer,
+  Tensor,
+} from '@huggingface/transformers';
+import { Config, EmbedPoolConfig, ModelLoading, validateNotePath, log } from './security.js';
+import { SearchResult } from './search.js';
+import { ModelSource, loadFromSource, locateModel } from './models.js';
+import { WorkerPool } from './workerpool.js';
+
+// Candidates rescored per query (more is slower, roughly linearly)
+export const RERANK_CANDIDATES = 30;
+
+// Characters of note text given to the cross-encoder (~512 tokens)
+const MAX_PASSAGE_CHARS = 2000;
+
+/**
+ * Scores query/passage pairs with a cross-encoder.
+ */
+export interface CrossEncoder {
+  initialize(): Promise<void>;
+  isReady(): boolean;
+  getModelKey(): string;
+  getSource(): ModelSource | null;
+  score(query: string, passages: string[], signal?: AbortSignal): Promise<number[]>;
+  close?(): void;
+}
+
+// Passed to rerankworker.ts
+export interface RerankWorkerInit {
+  modelKey: string;
+  loading: ModelLoading;
+}
+
+export interface RerankJob {
+  query: string;
+  passages: string[];
+}
+
+/**
+ * Runs the cross-encoder on the calling thread; RerankPool moves it to a
+ * worker thread.
+ */
+export class Reranker implements CrossEncoder {
+  private model: PreTrainedModel | null = null;
+  private tokenizer: PreTrainedTokenizer | null = null;
+  private modelKey: string;
+  private loading: ModelLoading;
+  private source: ModelSource | null = null;
+  private ready: boolean = false;
+
+  /**
+   * @param modelKey - Model id, or absolute path of a local model directory
+   */
+  constructor(modelKey: string, loading: ModelLoading = { offline: false }) {
+    this.modelKey = modelKey;
+    this.loading = loading;
+  }
+
+  /**
+   * Load the tokenizer and model. Called once at startup.
+   */
+  async initialize(): Promise<void> {
+    if (this.ready) {
+      return;
+    }
+
+    log('INFO', 'reranker_loading', { model: this.modelKey });
+
+    try {
+      const source = locateModel(this.modelKey, this.loading);
+      [this.tokenizer, this.model] = await loadFromSource(this.modelKey, source, (modelId, options) =>
+        Promise.all([
+          AutoTokenizer.from_pretrained(modelId, options),
+          AutoModelForSequenceClassification.from_pretrained(modelId, { ...options, dtype: 'fp32' }),
+        ])
+      );
+      this.source = source;
+
+      this.ready = true;
+      log('INFO', 'reranker_ready', { model: this.modelKey, ...source });
+    } catch (e) {
+      log('ERROR', 'reranker_init_failed', { error: String(e) });
+      throw new Error(`Failed to initialize reranker: ${e}`);
+    }
+  }
+
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  getModelKey(): string {
+    return this.modelKey;
+  }
+
+  getSource(): ModelSource | null {
+    return this.source;
+  }
+
+  /**
+   * Relevance of each passage to the query, between 0 and 1.
+   */
+  async score(query: string, passages: string[]): Promise<number[]> {
+    if (!this.ready || !this.model || !this.tokenizer) {
+      throw new Error('Reranker not initialized');
+    }
+    if (passages.length === 0) {
+      return [];
+    }
+
+    const inputs = this.tokenizer(new Array<string>(passages.length).fill(query), {
+      text_pair: passages,
+      padding: true,
+      truncation: true,
+    });
+    const { logits } = (await this.model(inputs)) as { logits: Tensor };
+
+    // One logit per pair for relevance models; otherwise the last label
+    const labels = logits.dims[1] ?? 1;
+    const data = logits.data as Float32Array;
+    return passages.map((_, i) => sigmoid(data[i * labels + labels - 1]));
+  }
+}
+
+/**
+ * A Reranker in worker threads, with the same queue, deadline and
+ * cancellation as EmbedPool (see workerpool.ts).
+ */
+export class RerankPool implements CrossEncoder {
+  private modelKey: string;
+  private pool: WorkerPool<RerankJob, Float32Array>;
+  private source: ModelSource | null = null;
+  private ready: boolean = false;
+
+  constructor(modelKey: string, loading: ModelLoading, options: EmbedPoolConfig) {
+    this.modelKey = modelKey;
+    this.pool = new WorkerPool({
+      name: 'rerank',
+      task: 'Reranking',
+      model: modelKey,
+      script: new URL('./rerankworker.js', import.meta.url),
+      workerData: { modelKey, loading } satisfies RerankWorkerInit,
+      limits: options,
+    });
+  }
+
+  async initialize(): Promise<void> {
+    if (this.ready) {
+      return;
+    }
+    this.source = await this.pool.initialize();
+    this.ready = true;
+  }
+
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  getModelKey(): string {
+    return this.modelKey;
+  }
+
+  getSource(): ModelSource | null {
+    return this.source;
+  }
+
+  async score(query: string, passages: string[], signal?: AbortSignal): Promise<number[]> {
+    if (!this.ready) {
+      throw new Error('Reranker not initialized');
+    }
+    if (passages.length === 0) {
+      return [];
+    }
+    return Array.from(await this.pool.run({ query, passages }, signal));
+  }
+
+  close(): void {
+    this.pool.close();
+  }
+}
+
+/**
+ * Re-order results by cross-encoder relevance, best first.
+ *
+ * Each result's passage is its note text, or for block results the
+ * block's line range. Results whose text can't be read keep their place
+ * behind the rescored ones. Returns null if the reranker fails (or is
+ * busy, or the request is cancelled), so the caller keeps the cosine
+ * ranking.
+ */
+export async function rerankResults<T extends SearchResult & { lines?: [number, number] }>(
+  config: Config,
+  reranker: CrossEncoder,
+  query: string,
+  results: T[],
+  signal?: AbortSignal
+): Promise<Array<T & { rerankScore?: number }> | null> {
+  const passages: string[] = [];
+  const scored: T[] = [];
+  const unscored: T[] = [];
+
+  for (const result of results) {
+    const passage = readPassage(config, result.path, result.lines);
+    if (passage) {
+      passages.push(passage);
+      scored.push(result);
+    } else {
+      unscored.push(result);
+    }
+  }
+
+  let scores: number[];
+  try {
+    scores = await reranker.score(query, passages, signal);
+  } catch (e) {
+    log('WARN', 'rerank_failed', { error: String(e) });
+    return null;
+  }
+
+  return [
+    ...scored
+      .map((result, i) => ({ ...result, rerankScore: Math.round(scores[i] * 1000) / 1000 }))
+      .sort((a, b) => b.rerankScore - a.rerankScore),
+    ...unscored,
+  ];
+}
+
+/**
+ * Text the cross-encoder sees for a result: the title, then the note or
+ * block content (frontmatter removed), cut to MAX_PASSAGE_CHARS.
+ */
+function readPassage(config: Config, notePath: string, lines?: [number, number]): string | null {
+  // SECURITY: All reads go through path validation
+  const validation = validateNotePath(config, notePath);
+  if (!validation.valid) return null;
+
+  let content: string;
+  try {
+    content = fs.readFileSync(validation.resolvedPath!, 'utf-8');
+  } catch {
+    return null;
+  }
+
+  if (lines) {
+    content = content.split(/\r?\n/).slice(Math.max(0, lines[0] - 1), lines[1]).join('\n');
+  } else {
+    content = content.replace(/^---\r?\n[\s\S]*?\r?\n---[ \t]*(?:\r?\n|$)/, '');
+  }
+
+  const title = path.basename(notePath, '.md');
+  return `${title}\n${content}`.slice(0, MAX_PASSAGE_CHARS);
+}
+
+function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
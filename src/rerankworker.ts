@@ -0,0 +1,26 @@
+/**
+ * Cross-encoder worker thread, started by RerankPool.
+ *
+ * Loads the reranker model once, then scores one request at a time.
+ */
+
+import { workerData } from 'node:worker_threads';
+import { configureModelLoading } from './models.js';
+import { RerankJob, RerankWorkerInit, Reranker } from './rerank.js';
+import { serveWorker } from './workerpool.js';
+
+const { modelKey, loading } = workerData as RerankWorkerInit;
+// Each thread has its own Transformers.js settings
+configureModelLoading(loading);
+const reranker = new Reranker(modelKey, loading);
+
+await serveWorker<RerankJob, Float32Array>(
+  async () => {
+    await reranker.initialize();
+    return reranker.getSource()!;
+  },
+  async ({ query, passages }) => {
+    const scores = Float32Array.from(await reranker.score(query, passages));
+    return { result: scores, transfer: [scores.buffer] };
+  }
+);
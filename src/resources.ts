@@ -0,0 +1,199 @@
+/**
+ * MCP resources: indexed notes as browsable, attachable context.
+ *
+ * - resources/list pages through indexed notes in path order
+ * - note://{path} (resource template) reads any vault note
+ * - resources/subscribe sends notifications/resources/updated when a
+ *   subscribed note's embedding is reloaded or its file changes
+ *
+ * URIs are "note://" followed by the vault-relative path, with each path
+ * segment percent-encoded (e.g. note://Topics/My%20Note.md).
+ */
+
+import * as fs from 'node:fs';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { Config, log, validateNotePath } from './security.js';
+import { SmartConnectionsData, diffEntries, extractTitle, sameEntry } from './data.js';
+import { ToolContext } from './tools.js';
+
+const URI_PREFIX = 'note://';
+const MIME_TYPE = 'text/markdown';
+
+// Notes per resources/list page
+const PAGE_SIZE = 100;
+
+// Each subscription polls its file; bounded so a client can't exhaust them
+const MAX_SUBSCRIPTIONS = 100;
+const POLL_INTERVAL_MS = 2000;
+
+export const resourceTemplates = [
+  {
+    uriTemplate: `${URI_PREFIX}{path}`,
+    name: 'note',
+    title: 'Vault note',
+    description: 'A markdown note in the vault, by vault-relative path (e.g. note://Topics/Note.md)',
+    mimeType: MIME_TYPE,
+  },
+];
+
+export function noteUri(notePath: string): string {
+  return URI_PREFIX + notePath.split('/').map(encodeURIComponent).join('/');
+}
+
+/**
+ * Vault-relative path of a note:// URI. Throws InvalidParams for other URIs.
+ */
+function parseNoteUri(uri: string): string {
+  if (!uri.startsWith(URI_PREFIX)) {
+    throw new McpError(ErrorCode.InvalidParams, `Unsupported resource URI (expected ${URI_PREFIX}<path>)`);
+  }
+  try {
+    return uri.slice(URI_PREFIX.length).split('/').map(decodeURIComponent).join('/');
+  } catch {
+    throw new McpError(ErrorCode.InvalidParams, 'Invalid resource URI encoding');
+  }
+}
+
+/**
+ * One page of indexed notes. The cursor is the last path of the previous
+ * page, so pages stay consistent while the index is reloaded.
+ */
+export function listResources(ctx: ToolContext, cursor?: string) {
+  let after = '';
+  if (cursor !== undefined) {
+    after = Buffer.from(cursor, 'base64url').toString('utf-8');
+    if (!after) {
+      throw new McpError(ErrorCode.InvalidParams, 'Invalid cursor');
+    }
+  }
+
+  // Only notes can be read back; Smart Connections may index other files
+  const paths = [...ctx.data.entries.keys()]
+    .filter(notePath => notePath.toLowerCase().endsWith('.md') && notePath > after)
+    .sort();
+  const page = paths.slice(0, PAGE_SIZE);
+
+  return {
+    resources: page.map(notePath => ({
+      uri: noteUri(notePath),
+      name: notePath,
+      title: extractTitle(notePath),
+      mimeType: MIME_TYPE,
+    })),
+    ...(paths.length > PAGE_SIZE && {
+      nextCursor: Buffer.from(page[page.length - 1], 'utf-8').toString('base64url'),
+    }),
+  };
+}
+
+/**
+ * Read a note:// resource. Same rules and limits as get_note.
+ */
+export function readResource(ctx: ToolContext, uri: string) {
+  const notePath = parseNoteUri(uri);
+
+  // SECURITY: Validate path before any filesystem access
+  const validation = validateNotePath(ctx.config, notePath);
+  if (!validation.valid) {
+    throw new McpError(ErrorCode.InvalidParams, validation.error!);
+  }
+
+  let content: string;
+  try {
+    content = fs.readFileSync(validation.resolvedPath!, 'utf-8');
+  } catch {
+    // SECURITY: Don't expose filesystem error details
+    throw new McpError(ErrorCode.InternalError, 'Failed to read note');
+  }
+
+  // SECURITY: Enforce content length limit
+  if (content.length > ctx.config.limits.maxContentLength) {
+    content = content.slice(0, ctx.config.limits.maxContentLength);
+    content += '\n\n[Content truncated - exceeded maximum length]';
+  }
+
+  log('INFO', 'resource_read', { notePath, contentLength: content.length });
+
+  return {
+    contents: [{ uri: noteUri(notePath), mimeType: MIME_TYPE, text: content }],
+  };
+}
+
+/**
+ * Notes clients have subscribed to, and the file polls behind them.
+ */
+export class ResourceSubscriptions {
+  private config: Config;
+  private onUpdated: (uri: string) => void;
+  private onListChanged: () => void;
+  private watched = new Map<string, { resolvedPath: string; listener: (curr: fs.Stats, prev: fs.Stats) => void }>();
+
+  /**
+   * @param onUpdated - Sends notifications/resources/updated for a URI
+   * @param onListChanged - Sends notifications/resources/list_changed
+   */
+  constructor(config: Config, onUpdated: (uri: string) => void, onListChanged: () => void) {
+    this.config = config;
+    this.onUpdated = onUpdated;
+    this.onListChanged = onListChanged;
+  }
+
+  subscribe(uri: string): void {
+    const notePath = parseNoteUri(uri);
+    if (this.watched.has(notePath)) return;
+
+    // SECURITY: Only notes that could be read are watched
+    const validation = validateNotePath(this.config, notePath);
+    if (!validation.valid) {
+      throw new McpError(ErrorCode.InvalidParams, validation.error!);
+    }
+    if (this.watched.size >= MAX_SUBSCRIPTIONS) {
+      throw new McpError(ErrorCode.InvalidRequest, `Too many subscriptions (max ${MAX_SUBSCRIPTIONS})`);
+    }
+
+    // Polling survives editors that save by replacing the file
+    const listener = (curr: fs.Stats, prev: fs.Stats): void => {
+      if (curr.mtimeMs !== prev.mtimeMs || curr.size !== prev.size) {
+        this.onUpdated(noteUri(notePath));
+      }
+    };
+    fs.watchFile(validation.resolvedPath!, { persistent: false, interval: POLL_INTERVAL_MS }, listener);
+    this.watched.set(notePath, { resolvedPath: validation.resolvedPath!, listener });
+
+    log('INFO', 'resource_subscribed', { notePath, subscriptions: this.watched.size });
+  }
+
+  unsubscribe(uri: string): void {
+    const notePath = parseNoteUri(uri);
+    const watch = this.watched.get(notePath);
+    if (!watch) return;
+
+    fs.unwatchFile(watch.resolvedPath, watch.listener);
+    this.watched.delete(notePath);
+  }
+
+  /**
+   * Called when the served data is swapped: notify subscribers of notes
+   * whose embedding changed, and everyone if notes were added or removed.
+   */
+  dataChanged(previous: SmartConnectionsData, next: SmartConnectionsData): void {
+    for (const notePath of this.watched.keys()) {
+      // A reload keeps the parsed entry of every note it didn't re-read
+      if (!sameEntry(previous.entries.get(notePath), next.entries.get(notePath))) {
+        this.onUpdated(noteUri(notePath));
+      }
+    }
+
+    const { added, removed } = diffEntries(previous.entries, next.entries);
+    if (added > 0 || removed > 0) {
+      this.onListChanged();
+    }
+  }
+
+  close(): void {
+    for (const { resolvedPath, listener } of this.watched.values()) {
+      fs.unwatchFile(resolvedPath, listener);
+    }
+    this.watched.clear();
+  }
+}
@@ -1,16 +1,43 @@
 /**
  * Search module for semantic similarity queries.
  *
- * Uses cosine similarity on pre-computed embeddings.
- * No ML inference - just vector math.
+ * Uses cosine similarity on pre-computed embeddings, via the normalized
+ * matrices in vectors.ts. No ML inference - just vector math. Keyword
+ * rankings from keyword.ts can be merged in with reciprocal rank fusion.
  */
 
-import { EmbeddingEntry, extractTitle } from './data.js';
+import { BlockEntry, extractTitle } from './data.js';
+import { NoteFilter, andFilters } from './filters.js';
+import { KeywordHit } from './keyword.js';
+import { SearchIndex, normalizedCopy } from './vectors.js';
+
+export type MatchSignal = 'semantic' | 'keyword';
 
 export interface SearchResult {
   path: string;
   title: string;
   score: number;
+  stale?: boolean; // Note changed since it was embedded (omitted if unknown)
+  source?: 'local'; // Vector computed by the fallback indexer, not Smart Connections
+  matchedBy?: MatchSignal[]; // Set by keyword and hybrid searches
+}
+
+export interface HybridSearchResult extends SearchResult {
+  semanticScore?: number; // Cosine similarity, if the semantic ranking had the note
+  keywordScore?: number; // BM25 score, if the keyword ranking had the note
+}
+
+// Reciprocal rank fusion constant (Cormack et al., 2009)
+const RRF_K = 60;
+
+// With diversity set, MMR re-ranks this many candidates per result
+const MMR_POOL_FACTOR = 5;
+const MMR_MAX_POOL = 250;
+
+export interface BlockSearchResult extends SearchResult {
+  block: string; // Full block key, e.g. "Topics/Note.md#Heading#Sub"
+  headings: string[];
+  lines?: [number, number];
 }
 
 /**
@@ -18,7 +45,7 @@ export interface SearchResult {
  *
  * Returns a value between -1 and 1, where 1 is most similar.
  */
-export function cosineSimilarity(a: number[], b: number[]): number {
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
   if (a.length !== b.length) {
     throw new Error(`Vector dimension mismatch: ${a.length} vs ${b.length}`);
   }
@@ -47,41 +74,29 @@ export function cosineSimilarity(a: number[], b: number[]): number {
  * Find notes most similar to a query embedding.
  */
 export function findSimilar(
-  queryEmbedding: number[],
-  entries: Map<string, EmbeddingEntry>,
+  queryEmbedding: ArrayLike<number>,
+  index: SearchIndex,
   options: {
     limit: number;
     threshold: number;
     excludePath?: string; // Exclude this path from results (for search_similar)
+    filter?: NoteFilter; // Applied before ranking
   }
 ): SearchResult[] {
-  const { limit, threshold, excludePath } = options;
-
-  const results: SearchResult[] = [];
+  const { limit, threshold, excludePath, filter } = options;
 
-  for (const [notePath, entry] of entries) {
+  const hits = index.search(queryEmbedding, {
+    limit,
+    threshold,
     // Skip the query note itself if provided
-    if (excludePath && notePath === excludePath) {
-      continue;
-    }
-
-    const score = cosineSimilarity(queryEmbedding, entry.embedding);
-
-    // Only include results above threshold
-    if (score >= threshold) {
-      results.push({
-        path: notePath,
-        title: extractTitle(notePath),
-        score: Math.round(score * 1000) / 1000, // Round to 3 decimal places
-      });
-    }
-  }
-
-  // Sort by score descending
-  results.sort((a, b) => b.score - a.score);
+    filter: andFilters(excludePath ? (notePath) => notePath !== excludePath : undefined, filter),
+  });
 
-  // Return top N results
-  return results.slice(0, limit);
+  return hits.map(({ key, score }) => ({
+    path: key,
+    title: extractTitle(key),
+    score: roundScore(score),
+  }));
 }
 
 /**
@@ -89,20 +104,254 @@ export function findSimilar(
  */
 export function findSimilarToNote(
   notePath: string,
-  entries: Map<string, EmbeddingEntry>,
+  index: SearchIndex,
   options: {
     limit: number;
     threshold: number;
+    filter?: NoteFilter;
   }
 ): SearchResult[] | null {
-  const entry = entries.get(notePath);
+  const embedding = index.getVector(notePath);
 
-  if (!entry) {
+  if (!embedding) {
     return null; // Note not found in index
   }
 
-  return findSimilar(entry.embedding, entries, {
+  return findSimilar(embedding, index, {
     ...options,
     excludePath: notePath, // Don't return the query note itself
   });
 }
+
+/**
+ * Find blocks (note sections) most similar to a query embedding.
+ *
+ * Results carry the parent note path, so callers can fetch the note and
+ * quote just the matching line range.
+ */
+export function findSimilarBlocks(
+  queryEmbedding: ArrayLike<number>,
+  index: SearchIndex,
+  blocks: Map<string, BlockEntry>,
+  options: {
+    limit: number;
+    threshold: number;
+    notePath?: string; // Only search blocks within this note
+    filter?: NoteFilter; // Applied to each block's note, before ranking
+  }
+): BlockSearchResult[] {
+  const { limit, threshold, notePath, filter } = options;
+
+  // Block keys are "<note path>#<headings>"
+  const prefix = notePath ? `${notePath}#` : undefined;
+
+  const hits = index.search(queryEmbedding, {
+    limit,
+    threshold,
+    filter: andFilters(
+      prefix ? (key) => key.startsWith(prefix) : undefined,
+      filter ? (key) => filter(blocks.get(key)?.notePath ?? key) : undefined
+    ),
+  });
+
+  const results: BlockSearchResult[] = [];
+  for (const { key, score } of hits) {
+    const block = blocks.get(key);
+    if (!block) continue;
+
+    results.push({
+      path: block.notePath,
+      title: extractTitle(block.notePath),
+      score: roundScore(score),
+      block: block.key,
+      headings: block.headings,
+      ...(block.lines && { lines: block.lines }),
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Combine weighted example vectors into one query vector (Rocchio style).
+ *
+ * Each vector is normalized before weighting, so long and short examples
+ * count equally; negative weights push the query away from an example.
+ * Returns null if the examples cancel out.
+ */
+export function combineVectors(
+  parts: Array<{ vector: ArrayLike<number>; weight: number }>,
+  dimensions: number
+): Float32Array | null {
+  const combined = new Float32Array(dimensions);
+
+  for (const { vector, weight } of parts) {
+    const unit = normalizedCopy(vector);
+    for (let i = 0; i < dimensions; i++) {
+      combined[i] += weight * unit[i];
+    }
+  }
+
+  let norm = 0;
+  for (let i = 0; i < dimensions; i++) {
+    norm += combined[i] * combined[i];
+  }
+
+  return norm > 1e-12 ? combined : null;
+}
+
+/**
+ * Mean of normalized vectors, e.g. to stand for a whole folder.
+ */
+export function centroid(vectors: ArrayLike<number>[], dimensions: number): Float32Array | null {
+  if (vectors.length === 0) return null;
+  return combineVectors(vectors.map(vector => ({ vector, weight: 1 / vectors.length })), dimensions);
+}
+
+/**
+ * Convert BM25 hits to search results.
+ */
+export function keywordResults(hits: KeywordHit[]): SearchResult[] {
+  return hits.map(({ path: notePath, score }) => ({
+    path: notePath,
+    title: extractTitle(notePath),
+    score: roundScore(score),
+    matchedBy: ['keyword'],
+  }));
+}
+
+/**
+ * Merge a semantic and a keyword ranking with reciprocal rank fusion.
+ *
+ * Each note scores sum(1 / (RRF_K + rank)) over the rankings it appears
+ * in, so notes found by both signals rise to the top without having to
+ * calibrate cosine similarities against BM25 scores.
+ */
+export function fuseRankings(
+  semantic: SearchResult[],
+  keyword: KeywordHit[],
+  limit: number
+): HybridSearchResult[] {
+  const fused = new Map<string, HybridSearchResult>();
+
+  const add = (notePath: string, rank: number, signal: MatchSignal, score: number) => {
+    let result = fused.get(notePath);
+    if (!result) {
+      result = { path: notePath, title: extractTitle(notePath), score: 0, matchedBy: [] };
+      fused.set(notePath, result);
+    }
+    result.score += 1 / (RRF_K + rank + 1);
+    result.matchedBy!.push(signal);
+    if (signal === 'semantic') {
+      result.semanticScore = score;
+    } else {
+      result.keywordScore = roundScore(score);
+    }
+  };
+
+  semantic.forEach((result, rank) => add(result.path, rank, 'semantic', result.score));
+  keyword.forEach((hit, rank) => add(hit.path, rank, 'keyword', hit.score));
+
+  return [...fused.values()]
+    .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path))
+    .slice(0, limit)
+    .map(result => ({ ...result, score: Math.round(result.score * 10000) / 10000 }));
+}
+
+/**
+ * Merge rankings of the same kind (e.g. one per query chunk), keeping
+ * each result's best score. `keyOf` identifies a result across rankings.
+ */
+export function mergeRankings<T extends SearchResult>(
+  rankings: T[][],
+  keyOf: (result: T) => string,
+  limit: number
+): T[] {
+  const best = new Map<string, T>();
+  for (const ranking of rankings) {
+    for (const result of ranking) {
+      const key = keyOf(result);
+      const existing = best.get(key);
+      if (!existing || result.score > existing.score) {
+        best.set(key, result);
+      }
+    }
+  }
+
+  return [...best.values()]
+    .sort((a, b) => b.score - a.score || keyOf(a).localeCompare(keyOf(b)))
+    .slice(0, limit);
+}
+
+/**
+ * Number of candidates to fetch for `limit` results. Diversification
+ * needs a deeper pool to pick distinct results from.
+ */
+export function candidatePoolSize(limit: number, diversity: number): number {
+  return diversity > 0 ? Math.max(limit, Math.min(limit * MMR_POOL_FACTOR, MMR_MAX_POOL)) : limit;
+}
+
+/**
+ * Re-rank results by Maximal Marginal Relevance (Carbonell & Goldstein, 1998).
+ *
+ * Greedily picks the candidate maximizing
+ *   (1 - diversity) * relevance - diversity * max similarity to picked results,
+ * where relevance is the score (or `relevanceOf`) scaled to [0, 1] and
+ * similarity is cosine over the stored embeddings. Candidates without a
+ * vector count as dissimilar to everything. `candidates` must be sorted
+ * best first.
+ */
+export function diversify<T extends SearchResult>(
+  candidates: T[],
+  vectorOf: (result: T) => Float32Array | undefined,
+  limit: number,
+  diversity: number,
+  relevanceOf: (result: T) => number = (result) => result.score
+): T[] {
+  if (diversity <= 0 || candidates.length <= 1) {
+    return candidates.slice(0, limit);
+  }
+
+  const scores = candidates.map(relevanceOf);
+  const maxScore = scores[0];
+  const vectors = candidates.map(vectorOf);
+  const remaining = candidates.map((_, i) => i);
+  // Highest similarity of each candidate to any picked result so far
+  const redundancy = new Array<number>(candidates.length).fill(0);
+  const picked: T[] = [];
+
+  while (picked.length < limit && remaining.length > 0) {
+    let best = 0;
+    let bestValue = -Infinity;
+    for (let r = 0; r < remaining.length; r++) {
+      const i = remaining[r];
+      const relevance = maxScore > 0 ? scores[i] / maxScore : 0;
+      const value = (1 - diversity) * relevance - diversity * redundancy[i];
+      if (value > bestValue) {
+        bestValue = value;
+        best = r;
+      }
+    }
+
+    const [chosen] = remaining.splice(best, 1);
+    picked.push(candidates[chosen]);
+
+    const chosenVector = vectors[chosen];
+    if (!chosenVector) continue;
+    for (const i of remaining) {
+      const vector = vectors[i];
+      if (vector) {
+        redundancy[i] = Math.max(redundancy[i], cosineSimilarity(chosenVector, vector));
+      }
+    }
+  }
+
+  return picked;
+}
+
+/**
+ * Round to 3 decimal places for display.
+ */
+function roundScore(score: number): number {
+  return Math.round(score * 1000) / 1000;
+}
@@ -9,18 +9,82 @@
  */
 
 import * as fs from 'node:fs';
+import * as os from 'node:os';
 import * as path from 'node:path';
 
 export interface Config {
   vaultPath: string;
   resolvedVaultPath: string; // Resolved at startup, used for all checks
+  cacheDir: string; // Server-owned cache directory, always outside the vault
+  ann: AnnConfig;
+  rerankerModel?: string; // Cross-encoder model id, or absolute path of a local model directory
+  queryCache: QueryCacheConfig;
+  modelProfiles?: string; // Absolute path of a JSON file of extra model profiles
+  models: ModelLoading;
+  embedPool: EmbedPoolConfig;
+  localIndex: LocalIndexConfig;
   limits: {
     maxQueryLength: number;
+    maxPassageLength: number; // search_by_text query text, embedded in chunks
     maxResults: number;
     maxContentLength: number;
   };
 }
 
+export interface AnnConfig {
+  enabled: boolean; // Use an HNSW index instead of exact search
+  minVectors: number; // Exact search below this many vectors
+  m: number;
+  efConstruction: number;
+  efSearch: number;
+}
+
+export interface QueryCacheConfig {
+  size: number; // Query embeddings kept in memory; 0 disables the cache
+  persist: boolean; // Also keep them in cacheDir across restarts
+}
+
+export interface ModelLoading {
+  modelDir?: string; // Absolute path of a directory of local models
+  offline: boolean; // Never download models from the Hugging Face Hub
+}
+
+export interface EmbedPoolConfig {
+  workers: number; // Worker threads running the query model; 0 runs it on the main thread
+  queueSize: number; // Requests waiting for a worker before new ones are refused
+  timeoutMs: number; // Per request, including time spent queued
+}
+
+export interface LocalIndexConfig {
+  enabled: boolean; // Embed notes Smart Connections hasn't (or has stale vectors for)
+  rescanMinutes: number; // Interval between scans of the vault for notes to embed
+}
+
+/**
+ * Raw startup options (from CLI flags or environment variables).
+ * Validated and converted by validateConfig.
+ */
+export interface ConfigOptions {
+  cacheDir?: string; // Defaults to $XDG_CACHE_HOME/smart-connections-mcp
+  annIndex?: string; // "exact" (default) or "hnsw"
+  annMinVectors?: string;
+  hnswM?: string;
+  hnswEfConstruction?: string;
+  hnswEfSearch?: string;
+  rerankerModel?: string; // Model id, or a path to a local model directory
+  queryCache?: string; // "memory" (default), "disk" or "off"
+  queryCacheSize?: string;
+  maxPassageLength?: string;
+  modelProfiles?: string; // Path to a JSON file of model profiles
+  modelDir?: string; // Directory of local models, as <dir>/<model id>/
+  offline?: string; // "true"/"1" to refuse model downloads
+  embedWorkers?: string;
+  embedQueueSize?: string;
+  embedTimeoutMs?: string;
+  localIndex?: string; // "true"/"1" to run the fallback indexer
+  localIndexRescanMinutes?: string;
+}
+
 export interface ValidationResult {
   valid: boolean;
   error?: string;
@@ -31,7 +95,10 @@ export interface ValidationResult {
  * Validate and resolve the vault configuration at startup.
  * Fails fast if configuration is invalid.
  */
-export function validateConfig(vaultPath: string | undefined): Config {
+export function validateConfig(
+  vaultPath: string | undefined,
+  options: ConfigOptions = {}
+): Config {
   // SECURITY: No implicit defaults - vault path must be explicit
   if (!vaultPath) {
     throw new Error('VAULT_PATH environment variable is required');
@@ -74,17 +141,172 @@ export function validateConfig(vaultPath: string | undefined): Config {
     throw new Error(`Cannot resolve vault path: ${absolutePath}`);
   }
 
+  const cacheDir = resolveCacheDir(options.cacheDir, resolvedVaultPath);
+
+  const annIndex = options.annIndex ?? 'exact';
+  if (annIndex !== 'exact' && annIndex !== 'hnsw') {
+    throw new Error(`Invalid ANN index "${annIndex}" (expected "exact" or "hnsw")`);
+  }
+
+  const queryCache = options.queryCache ?? 'memory';
+  if (queryCache !== 'memory' && queryCache !== 'disk' && queryCache !== 'off') {
+    throw new Error(`Invalid query cache "${queryCache}" (expected "memory", "disk" or "off")`);
+  }
+
   return {
     vaultPath: absolutePath,
     resolvedVaultPath,
+    cacheDir,
+    ann: {
+      enabled: annIndex === 'hnsw',
+      minVectors: parseIntOption(options.annMinVectors, 'ANN min vectors', 0, 10_000_000, 20000),
+      m: parseIntOption(options.hnswM, 'HNSW M', 4, 64, 16),
+      efConstruction: parseIntOption(options.hnswEfConstruction, 'HNSW efConstruction', 10, 1000, 100),
+      efSearch: parseIntOption(options.hnswEfSearch, 'HNSW efSearch', 10, 1000, 64),
+    },
+    rerankerModel: resolveModelOption(options.rerankerModel, 'Reranker model'),
+    modelProfiles: resolveFileOption(options.modelProfiles, 'Model profiles'),
+    models: {
+      modelDir: resolveDirOption(options.modelDir, 'Model'),
+      offline: parseBoolOption(options.offline, 'OFFLINE'),
+    },
+    embedPool: {
+      workers: parseIntOption(options.embedWorkers, 'Embed workers', 0, 8, 1),
+      queueSize: parseIntOption(options.embedQueueSize, 'Embed queue size', 1, 1000, 32),
+      timeoutMs: parseIntOption(options.embedTimeoutMs, 'Embed timeout', 1000, 600_000, 30_000),
+    },
+    localIndex: {
+      enabled: parseBoolOption(options.localIndex, 'LOCAL_INDEX'),
+      rescanMinutes: parseIntOption(options.localIndexRescanMinutes, 'Local index rescan interval', 1, 1440, 10),
+    },
+    queryCache: {
+      size: queryCache === 'off' ? 0 : parseIntOption(options.queryCacheSize, 'Query cache size', 1, 100_000, 1000),
+      persist: queryCache === 'disk',
+    },
     limits: {
       maxQueryLength: 1000,
+      maxPassageLength: parseIntOption(options.maxPassageLength, 'Max passage length', 500, 100_000, 8000),
       maxResults: 50,
       maxContentLength: 10240, // 10KB per note
     },
   };
 }
 
+/**
+ * Parse an integer startup option, failing fast on bad values.
+ */
+function parseIntOption(
+  value: string | undefined,
+  name: string,
+  min: number,
+  max: number,
+  defaultValue: number
+): number {
+  if (value === undefined) {
+    return defaultValue;
+  }
+
+  const num = Number(value);
+  if (!Number.isInteger(num) || num < min || num > max) {
+    throw new Error(`${name} must be an integer between ${min} and ${max}`);
+  }
+
+  return num;
+}
+
+/**
+ * Resolve a model option: a Hugging Face model id (e.g. "Xenova/ms-marco-MiniLM-L-6-v2")
+ * is kept as is, a path ("/...", "./...", "~/...") must be an existing
+ * directory and is made absolute.
+ */
+function resolveModelOption(value: string | undefined, name: string): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (!path.isAbsolute(value) && !value.startsWith('.') && !value.startsWith('~')) {
+    return value;
+  }
+
+  return resolveDirOption(value, name);
+}
+
+/**
+ * Resolve an optional path to an existing directory.
+ */
+function resolveDirOption(value: string | undefined, name: string): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const absolute = path.resolve(value.replace(/^~(?=$|\/)/, os.homedir()));
+  if (!fs.existsSync(absolute) || !fs.statSync(absolute).isDirectory()) {
+    throw new Error(`${name} directory does not exist: ${absolute}`);
+  }
+
+  return absolute;
+}
+
+/**
+ * Parse a boolean startup option ("true"/"1"/"yes" or "false"/"0"/"no").
+ */
+function parseBoolOption(value: string | undefined, name: string): boolean {
+  if (value === undefined) {
+    return false;
+  }
+
+  const normalized = value.trim().toLowerCase();
+  if (['true', '1', 'yes'].includes(normalized)) return true;
+  if (['false', '0', 'no'].includes(normalized)) return false;
+  throw new Error(`Invalid ${name} value "${value}" (expected true or false)`);
+}
+
+/**
+ * Resolve an optional path to an existing file.
+ */
+function resolveFileOption(value: string | undefined, name: string): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const absolute = path.resolve(value.replace(/^~(?=$|\/)/, os.homedir()));
+  if (!fs.existsSync(absolute) || !fs.statSync(absolute).isFile()) {
+    throw new Error(`${name} file does not exist: ${absolute}`);
+  }
+
+  return absolute;
+}
+
+/**
+ * Resolve the cache directory and make sure it is outside the vault.
+ *
+ * SECURITY: The server never writes to the vault. Caches live in a
+ * separate directory, and a cache directory inside the vault is rejected.
+ */
+function resolveCacheDir(cacheDir: string | undefined, resolvedVaultPath: string): string {
+  const base = cacheDir
+    ?? path.join(process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache'), 'smart-connections-mcp');
+  const absolute = path.resolve(base);
+
+  // Resolve symlinks in the part of the path that already exists
+  let existing = absolute;
+  while (!fs.existsSync(existing) && path.dirname(existing) !== existing) {
+    existing = path.dirname(existing);
+  }
+  let resolved: string;
+  try {
+    resolved = path.join(fs.realpathSync(existing), path.relative(existing, absolute));
+  } catch {
+    throw new Error(`Cannot resolve cache directory: ${absolute}`);
+  }
+
+  if (resolved === resolvedVaultPath || resolved.startsWith(resolvedVaultPath + path.sep)) {
+    throw new Error(`Cache directory must be outside the vault: ${absolute}`);
+  }
+
+  return resolved;
+}
+
 /**
  * Validate a note path for content retrieval.
  *
@@ -0,0 +1,247 @@
+/**
+ * Binary snapshot cache of the parsed index.
+ *
+ * Parsing every .ajson file on startup is slow for large vaults. The
+ * snapshot stores the parsed state of each file (a path table in a JSON
+ * header, followed by all vectors as contiguous Float32 data), keyed by
+ * the model key and each source file's mtime and size. Files that have not
+ * changed since the snapshot are loaded from it; only the rest are parsed.
+ *
+ * Layout: "SCMS" | version (u32 LE) | header length (u32 LE) |
+ *         header JSON (space-padded to 4 bytes) | float32 LE vectors
+ *
+ * SECURITY: Snapshots are written to config.cacheDir, which is validated
+ * to be outside the vault. Nothing is ever written to the vault.
+ */
+
+import * as crypto from 'node:crypto';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { Config, log } from './security.js';
+import {
+  AjsonFileState,
+  BlockEntry,
+  BlockInfo,
+  EmbeddingEntry,
+  SourceInfo,
+} from './data.js';
+
+const MAGIC = 'SCMS';
+const VERSION = 1;
+const PREAMBLE_BYTES = 12;
+
+interface SnapshotHeader {
+  modelKey: string;
+  vectorCount: number;
+  files: Record<string, SnapshotFile>;
+}
+
+interface SnapshotFile {
+  mtimeMs: number;
+  size: number;
+  badLines: number;
+  entries: Array<{
+    path: string;
+    dims: number;
+    blocks?: Record<string, BlockInfo>;
+    source?: SourceInfo;
+  }>;
+  blocks: Array<{
+    key: string;
+    notePath: string;
+    headings: string[];
+    lines?: [number, number];
+    dims: number;
+  }>;
+}
+
+/**
+ * Path of the snapshot for this vault. One file per vault, so several
+ * servers can share a cache directory.
+ */
+function snapshotPath(config: Config): string {
+  const vaultId = crypto
+    .createHash('sha256')
+    .update(config.resolvedVaultPath)
+    .digest('hex')
+    .slice(0, 16);
+  return path.join(config.cacheDir, `snapshot-${vaultId}.bin`);
+}
+
+/**
+ * Load the snapshot for the given model, or null if there is no usable one.
+ *
+ * The whole file is read in one go and vectors are views into that buffer,
+ * so loading does no per-number parsing.
+ */
+export function readSnapshot(config: Config, modelKey: string): Map<string, AjsonFileState> | null {
+  const filePath = snapshotPath(config);
+  if (os.endianness() !== 'LE' || !fs.existsSync(filePath)) {
+    return null;
+  }
+
+  try {
+    const buffer = fs.readFileSync(filePath);
+    if (buffer.length < PREAMBLE_BYTES || buffer.toString('latin1', 0, 4) !== MAGIC) {
+      throw new Error('bad magic');
+    }
+    if (buffer.readUInt32LE(4) !== VERSION) {
+      return null; // Written by another version; rebuilt below
+    }
+
+    const headerLength = buffer.readUInt32LE(8);
+    const vectorsOffset = PREAMBLE_BYTES + headerLength;
+    const header = JSON.parse(
+      buffer.toString('utf-8', PREAMBLE_BYTES, vectorsOffset)
+    ) as SnapshotHeader;
+
+    if (header.modelKey !== modelKey) {
+      log('INFO', 'snapshot_model_changed', { cached: header.modelKey, current: modelKey });
+      return null;
+    }
+
+    // Float32Array views need 4-byte alignment; copy if the buffer isn't
+    const byteOffset = buffer.byteOffset + vectorsOffset;
+    const vectors = byteOffset % 4 === 0
+      ? new Float32Array(buffer.buffer, byteOffset, header.vectorCount)
+      : new Float32Array(buffer.buffer.slice(byteOffset, byteOffset + header.vectorCount * 4));
+
+    const files = new Map<string, AjsonFileState>();
+    let offset = 0;
+    const take = (dims: number): Float32Array => {
+      if (offset + dims > vectors.length) {
+        throw new Error('vector data truncated');
+      }
+      const vec = vectors.subarray(offset, offset + dims);
+      offset += dims;
+      return vec;
+    };
+
+    for (const name of Object.keys(header.files).sort()) {
+      const file = header.files[name];
+      const entries = new Map<string, EmbeddingEntry>();
+      const blocks = new Map<string, BlockEntry>();
+
+      for (const e of file.entries) {
+        entries.set(e.path, {
+          path: e.path,
+          embedding: take(e.dims),
+          ...(e.blocks && { blocks: e.blocks }),
+          ...(e.source && { source: e.source }),
+        });
+      }
+      for (const b of file.blocks) {
+        blocks.set(b.key, {
+          key: b.key,
+          notePath: b.notePath,
+          headings: b.headings,
+          ...(b.lines && { lines: b.lines }),
+          embedding: take(b.dims),
+        });
+      }
+
+      files.set(name, {
+        mtimeMs: file.mtimeMs,
+        size: file.size,
+        entries,
+        blocks,
+        badLines: file.badLines,
+      });
+    }
+
+    return files;
+  } catch (e) {
+    log('WARN', 'snapshot_invalid', { error: String(e) });
+    return null;
+  }
+}
+
+/**
+ * Write the parsed index to the snapshot file.
+ *
+ * Written to a temp file and renamed, so a crash never leaves a torn
+ * snapshot. Failures are logged and otherwise ignored: the cache is an
+ * optimisation only.
+ */
+export function writeSnapshot(
+  config: Config,
+  modelKey: string,
+  files: Map<string, AjsonFileState>
+): void {
+  if (os.endianness() !== 'LE') return;
+
+  const filePath = snapshotPath(config);
+  const header: SnapshotHeader = { modelKey, vectorCount: 0, files: {} };
+  const vectors: Float32Array[] = [];
+
+  for (const name of [...files.keys()].sort()) {
+    const file = files.get(name)!;
+    const snapshotFile: SnapshotFile = {
+      mtimeMs: file.mtimeMs,
+      size: file.size,
+      badLines: file.badLines,
+      entries: [],
+      blocks: [],
+    };
+
+    for (const entry of file.entries.values()) {
+      snapshotFile.entries.push({
+        path: entry.path,
+        dims: entry.embedding.length,
+        ...(entry.blocks && { blocks: entry.blocks }),
+        ...(entry.source && { source: entry.source }),
+      });
+      vectors.push(entry.embedding);
+      header.vectorCount += entry.embedding.length;
+    }
+    for (const block of file.blocks.values()) {
+      snapshotFile.blocks.push({
+        key: block.key,
+        notePath: block.notePath,
+        headings: block.headings,
+        ...(block.lines && { lines: block.lines }),
+        dims: block.embedding.length,
+      });
+      vectors.push(block.embedding);
+      header.vectorCount += block.embedding.length;
+    }
+
+    header.files[name] = snapshotFile;
+  }
+
+  let headerJson = JSON.stringify(header);
+  const headerBytes = Buffer.byteLength(headerJson, 'utf-8');
+  headerJson += ' '.repeat((4 - (headerBytes % 4)) % 4);
+
+  const preamble = Buffer.alloc(PREAMBLE_BYTES);
+  preamble.write(MAGIC, 0, 'latin1');
+  preamble.writeUInt32LE(VERSION, 4);
+  preamble.writeUInt32LE(Buffer.byteLength(headerJson, 'utf-8'), 8);
+
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  try {
+    fs.mkdirSync(config.cacheDir, { recursive: true, mode: 0o700 });
+
+    const fd = fs.openSync(tempPath, 'w', 0o600);
+    try {
+      fs.writeSync(fd, preamble);
+      fs.writeSync(fd, Buffer.from(headerJson, 'utf-8'));
+      for (const vec of vectors) {
+        fs.writeSync(fd, new Uint8Array(vec.buffer, vec.byteOffset, vec.byteLength));
+      }
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    fs.renameSync(tempPath, filePath);
+    log('INFO', 'snapshot_written', { files: files.size, vectors: vectors.length });
+  } catch (e) {
+    log('WARN', 'snapshot_write_failed', { error: String(e) });
+    try {
+      fs.rmSync(tempPath, { force: true });
+    } catch {
+      // Nothing more to do
+    }
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * Staleness detection between notes on disk and their stored embeddings.
+ *
+ * Smart Connections records the mtime, size and content hash of each note
+ * when it embeds it. Comparing those with the file on disk tells us whether
+ * a search hit still reflects what the note says today.
+ */
+
+import * as crypto from 'node:crypto';
+import * as fs from 'node:fs';
+import { Config, validateNotePath } from './security.js';
+import { EmbeddingEntry, SmartConnectionsData, SourceInfo } from './data.js';
+import { SearchResult } from './search.js';
+import { listVaultNotesSliced } from './vault.js';
+import { timeSlicer } from './vectors.js';
+
+export interface IndexHealth {
+  stale: string[]; // Notes changed since they were embedded
+  unembedded: string[]; // Vault notes with no embedding
+  orphaned: string[]; // Embeddings whose note no longer exists
+}
+
+interface StaleCacheEntry {
+  mtimeMs: number;
+  size: number;
+  stale: boolean;
+}
+
+// Keyed by the recorded metadata: re-parsing a note replaces it, which
+// drops its cache
+const staleCache = new WeakMap<SourceInfo, StaleCacheEntry>();
+
+/**
+ * Check whether a note has changed since its embedding was computed.
+ *
+ * Returns undefined if Smart Connections recorded no file metadata for
+ * the note, so staleness cannot be determined.
+ */
+export function checkStale(config: Config, entry: EmbeddingEntry): boolean | undefined {
+  const source = entry.source;
+  if (!source || !entry.path.toLowerCase().endsWith('.md')) return undefined;
+
+  // SECURITY: Indexed paths come from .smart-env, but are still confined
+  const validation = validateNotePath(config, entry.path);
+  if (!validation.valid) {
+    // The note was deleted (or is no longer reachable): the embedding is stale
+    return true;
+  }
+
+  let stats: fs.Stats;
+  try {
+    stats = fs.statSync(validation.resolvedPath!);
+  } catch {
+    return true;
+  }
+
+  const cached = staleCache.get(source);
+  if (cached && cached.mtimeMs === stats.mtimeMs && cached.size === stats.size) {
+    return cached.stale;
+  }
+
+  const stale = compareWithFile(source, stats, validation.resolvedPath!);
+  staleCache.set(source, { mtimeMs: stats.mtimeMs, size: stats.size, stale });
+  return stale;
+}
+
+/**
+ * Compare recorded metadata with the file: size first, then mtime, and
+ * only read the file to hash it when the mtime moved.
+ */
+function compareWithFile(
+  source: NonNullable<EmbeddingEntry['source']>,
+  stats: fs.Stats,
+  resolvedPath: string
+): boolean {
+  if (source.size !== undefined && source.size !== stats.size) {
+    return true;
+  }
+
+  if (source.mtime !== undefined && Math.floor(stats.mtimeMs) <= source.mtime) {
+    return false;
+  }
+
+  // Touched but possibly unchanged (e.g. synced): the hash decides
+  if (source.hash === undefined) {
+    return source.mtime !== undefined;
+  }
+
+  let content: string;
+  try {
+    content = fs.readFileSync(resolvedPath, 'utf-8');
+  } catch {
+    return true;
+  }
+
+  return !hashMatches(source.hash, content);
+}
+
+/**
+ * Check content against a Smart Connections hash.
+ *
+ * Newer versions store SHA-256 hex digests; older ones store a 32-bit
+ * murmur hash in base 36.
+ */
+function hashMatches(hash: string, content: string): boolean {
+  if (/^[0-9a-f]{64}$/i.test(hash)) {
+    return crypto.createHash('sha256').update(content).digest('hex') === hash.toLowerCase();
+  }
+
+  const murmur = murmurHash32(content);
+  return hash === murmur.toString(36) || hash === String(murmur);
+}
+
+/**
+ * MurmurHash3 (x86, 32-bit) over UTF-16 code units masked to bytes,
+ * matching the implementation Smart Connections uses.
+ */
+function murmurHash32(key: string, seed: number = 0): number {
+  const c1 = 0xcc9e2d51;
+  const c2 = 0x1b873593;
+  const remainder = key.length & 3;
+  const bytes = key.length - remainder;
+
+  let h1 = seed;
+  let i = 0;
+
+  while (i < bytes) {
+    let k1 =
+      (key.charCodeAt(i) & 0xff) |
+      ((key.charCodeAt(i + 1) & 0xff) << 8) |
+      ((key.charCodeAt(i + 2) & 0xff) << 16) |
+      ((key.charCodeAt(i + 3) & 0xff) << 24);
+    i += 4;
+
+    k1 = Math.imul(k1, c1);
+    k1 = (k1 << 15) | (k1 >>> 17);
+    k1 = Math.imul(k1, c2);
+
+    h1 ^= k1;
+    h1 = (h1 << 13) | (h1 >>> 19);
+    h1 = (Math.imul(h1, 5) + 0xe6546b64) | 0;
+  }
+
+  let k1 = 0;
+  if (remainder >= 3) k1 ^= (key.charCodeAt(i + 2) & 0xff) << 16;
+  if (remainder >= 2) k1 ^= (key.charCodeAt(i + 1) & 0xff) << 8;
+  if (remainder >= 1) {
+    k1 ^= key.charCodeAt(i) & 0xff;
+    k1 = Math.imul(k1, c1);
+    k1 = (k1 << 15) | (k1 >>> 17);
+    k1 = Math.imul(k1, c2);
+    h1 ^= k1;
+  }
+
+  h1 ^= key.length;
+  h1 ^= h1 >>> 16;
+  h1 = Math.imul(h1, 0x85ebca6b);
+  h1 ^= h1 >>> 13;
+  h1 = Math.imul(h1, 0xc2b2ae35);
+  h1 ^= h1 >>> 16;
+
+  return h1 >>> 0;
+}
+
+/**
+ * Set the `stale` flag on search results (block results use their note).
+ * Results whose staleness cannot be determined are left without a flag.
+ * Notes embedded by the fallback indexer are also marked `source: 'local'`.
+ */
+export function annotateStaleness<T extends SearchResult>(
+  config: Config,
+  entries: Map<string, EmbeddingEntry>,
+  results: T[]
+): T[] {
+  for (const result of results) {
+    const entry = entries.get(result.path);
+    const stale = entry ? checkStale(config, entry) : undefined;
+    if (stale !== undefined) {
+      result.stale = stale;
+    }
+    if (entry?.origin === 'local') {
+      result.source = 'local';
+    }
+  }
+  return results;
+}
+
+/**
+ * Compare the index with the vault's notes. The walk and the staleness
+ * checks (which may hash files) run in time slices.
+ */
+export async function checkIndexHealth(config: Config, data: SmartConnectionsData): Promise<IndexHealth> {
+  const pause = timeSlicer();
+  const vaultNotes = new Set(await listVaultNotesSliced(config, pause));
+
+  const stale: string[] = [];
+  const orphaned: string[] = [];
+
+  for (const [notePath, entry] of data.entries) {
+    // Smart Connections may index other file types; only notes are checked
+    if (!notePath.toLowerCase().endsWith('.md')) continue;
+    await pause();
+
+    if (!vaultNotes.has(notePath)) {
+      orphaned.push(notePath);
+    } else if (checkStale(config, entry)) {
+      stale.push(notePath);
+    }
+  }
+
+  const unembedded = [...vaultNotes].filter(notePath => !data.entries.has(notePath));
+
+  return {
+    stale: stale.sort(),
+    unembedded,
+    orphaned: orphaned.sort(),
+  };
+}
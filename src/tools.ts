@@ -1,13 +1,22 @@
 /**
  * MCP Tool definitions and handlers.
  *
- * Exposes 6 read-only tools for semantic search:
- * - search_by_text: Search using freeform text query (computes embedding locally)
+ * Exposes 15 read-only tools for semantic search and link navigation:
+ * - search_by_text: Search using freeform text query (semantic, keyword or hybrid)
+ * - search_blocks: Search note sections (blocks) using freeform text
  * - search_similar: Find notes similar to an existing note
  * - search_by_embedding: Search using a raw embedding vector
+ * - search_composite: Search with weighted positive and negative examples
  * - get_note: Get content of a specific note
  * - get_model_info: Get embedding model configuration
  * - list_indexed: List all indexed notes
+ * - index_health: Report stale, unembedded and orphaned notes
+ * - cluster_notes: Group notes into labelled topic clusters
+ * - find_duplicates: Find sets of near-duplicate notes
+ * - suggest_links: Suggest related notes that aren't linked yet
+ * - get_backlinks: List notes linking to a note
+ * - get_outlinks: List notes a note links to
+ * - get_neighbourhood: List notes within a few links of a note
  */
 
 import * as fs from 'node:fs';
@@ -20,23 +29,74 @@ import {
   log,
 } from './security.js';
 import { SmartConnectionsData, extractTitle } from './data.js';
-import { findSimilar, findSimilarToNote } from './search.js';
-import { Embedder } from './embeddings.js';
+import {
+  BlockSearchResult,
+  SearchResult,
+  candidatePoolSize,
+  centroid,
+  combineVectors,
+  diversify,
+  findSimilar,
+  findSimilarBlocks,
+  findSimilarToNote,
+  fuseRankings,
+  keywordResults,
+  mergeRankings,
+} from './search.js';
+import { EmbedRequestError, QueryEmbedder, maxQueryChars, splitQuery } from './embeddings.js';
+import { CachedEmbedder } from './querycache.js';
+import { getModelProfile } from './profiles.js';
+import { KeywordIndex } from './keyword.js';
+import { NoteFilter, NoteMetadataIndex, SearchFilters, compileFilters } from './filters.js';
+import { MAX_CLUSTER_SCOPE, clusterNotes, defaultClusterCount } from './cluster.js';
+import { MAX_DUPLICATE_SCOPE, MAX_TEXT_PAIRS, findDuplicates, textSimilarity } from './duplicates.js';
+import { timeSlicer } from './vectors.js';
+import { LinkGraph } from './links.js';
+import { CrossEncoder, RERANK_CANDIDATES, rerankResults } from './rerank.js';
+import { annotateStaleness, checkIndexHealth } from './staleness.js';
 
 // ============================================================================
 // Tool Schemas (Zod)
 // ============================================================================
 
-export const SearchSimilarSchema = z.object({
+// Filters shared by the note search tools, applied before ranking
+const SearchFiltersSchema = z.object({
+  include: z.array(z.string().min(1).max(200)).max(20).optional().describe('Only notes matching one of these globs'),
+  exclude: z.array(z.string().min(1).max(200)).max(20).optional().describe('Skip notes matching any of these globs'),
+  tags: z.array(z.string().min(1).max(100)).max(20).optional().describe('Only notes with all of these tags'),
+  frontmatter: z.record(z.string(), z.union([z.string(), z.number(), z.boolean()])).optional().describe('Only notes whose frontmatter has these values'),
+  modifiedAfter: z.string().optional().describe('Only notes modified after this ISO date'),
+  modifiedBefore: z.string().optional().describe('Only notes modified before this ISO date'),
+});
+
+export const SearchSimilarSchema = SearchFiltersSchema.extend({
   notePath: z.string().describe('Path to note relative to vault root (e.g., "Topics/Claude_Code.md")'),
   limit: z.number().min(1).max(50).default(10).describe('Maximum results to return (1-50)'),
   threshold: z.number().min(0).max(1).default(0.3).describe('Minimum similarity score (0-1)'),
+  diversity: z.number().min(0).max(1).default(0).describe('Trade relevance for variety among results (0-1, MMR)'),
 });
 
-export const SearchByEmbeddingSchema = z.object({
+export const SearchByEmbeddingSchema = SearchFiltersSchema.extend({
   embedding: z.array(z.number()).describe('Embedding vector (must match model dimensions)'),
   limit: z.number().min(1).max(50).default(10).describe('Maximum results to return (1-50)'),
   threshold: z.number().min(0).max(1).default(0.3).describe('Minimum similarity score (0-1)'),
+  diversity: z.number().min(0).max(1).default(0).describe('Trade relevance for variety among results (0-1, MMR)'),
+});
+
+const CompositeExampleSchema = z.object({
+  notePath: z.string().optional().describe('Indexed note, or a folder ending in "/"'),
+  text: z.string().min(1).max(500).optional().describe('Free text, embedded locally'),
+  weight: z.number().min(0).max(10).default(1).describe('How strongly this example counts'),
+}).refine(e => (e.notePath === undefined) !== (e.text === undefined), {
+  message: 'Each example needs exactly one of notePath or text',
+});
+
+export const SearchCompositeSchema = SearchFiltersSchema.extend({
+  positive: z.array(CompositeExampleSchema).min(1).max(10).describe('Examples results should resemble'),
+  negative: z.array(CompositeExampleSchema).max(10).default([]).describe('Examples results should not resemble'),
+  limit: z.number().min(1).max(50).default(10).describe('Maximum results to return (1-50)'),
+  threshold: z.number().min(0).max(1).default(0.3).describe('Minimum similarity score (0-1)'),
+  diversity: z.number().min(0).max(1).default(0).describe('Trade relevance for variety among results (0-1, MMR)'),
 });
 
 export const GetNoteSchema = z.object({
@@ -47,20 +107,176 @@ export const ListIndexedSchema = z.object({
   pattern: z.string().optional().describe('Filter by path prefix (e.g., "Topics/")'),
 });
 
-export const SearchByTextSchema = z.object({
+export const IndexHealthSchema = z.object({
+  pattern: z.string().optional().describe('Filter by path prefix (e.g., "Topics/")'),
+  limit: z.number().min(1).max(50).default(50).describe('Maximum paths to list per category (1-50)'),
+});
+
+export const ClusterNotesSchema = z.object({
+  pattern: z.string().optional().describe('Filter by path prefix (e.g., "Topics/")'),
+  k: z.number().int().min(2).max(50).optional().describe('Number of clusters (default: based on note count)'),
+  seed: z.number().int().default(42).describe('Random seed; the same seed gives the same clusters'),
+  closest: z.number().int().min(1).max(20).default(5).describe('Notes closest to each centroid to list (1-20)'),
+  maxMembers: z.number().int().min(0).max(500).default(50).describe('Maximum member paths to list per cluster (0-500)'),
+});
+
+export const FindDuplicatesSchema = z.object({
+  pattern: z.string().optional().describe('Filter by path prefix (e.g., "Topics/")'),
+  threshold: z.number().min(0.8).max(1).default(0.95).describe('Minimum similarity for a pair to count as duplicates (0.8-1)'),
+  limit: z.number().min(1).max(50).default(20).describe('Maximum duplicate sets to return (1-50)'),
+  verifyText: z.boolean().default(false).describe('Also compare the note files line by line'),
+});
+
+export const SuggestLinksSchema = z.object({
+  notePath: z.string().describe('Path to note relative to vault root'),
+  limit: z.number().min(1).max(50).default(10).describe('Maximum suggestions to return (1-50)'),
+  threshold: z.number().min(0).max(1).default(0.5).describe('Minimum similarity score (0-1)'),
+});
+
+export const GetLinksSchema = z.object({
+  notePath: z.string().describe('Path to note relative to vault root'),
+});
+
+export const GetNeighbourhoodSchema = z.object({
+  notePath: z.string().describe('Path to note relative to vault root'),
+  depth: z.number().int().min(1).max(3).default(1).describe('How many links away to go (1-3)'),
+  direction: z.enum(['out', 'in', 'both']).default('both').describe('Follow outlinks, backlinks or both'),
+  maxNodes: z.number().int().min(1).max(200).default(50).describe('Maximum notes to return (1-200)'),
+});
+
+export const SearchByTextSchema = SearchFiltersSchema.extend({
+  // Upper bound is config.limits.maxPassageLength, checked by the handler
+  query: z.string().min(1).describe('Text to search for; text over 500 characters is embedded in chunks'),
+  limit: z.number().min(1).max(50).default(10).describe('Maximum results to return (1-50)'),
+  threshold: z.number().min(0).max(1).default(0.3).describe('Minimum similarity score (0-1)'),
+  granularity: z.enum(['note', 'block']).default('note').describe('Return whole notes or individual blocks'),
+  mode: z.enum(['semantic', 'keyword', 'hybrid']).default('semantic').describe('Rank by embeddings, BM25 keywords, or both fused'),
+  rerank: z.boolean().optional().describe('Rerank top results with the cross-encoder (default: on when configured)'),
+  longQuery: z.enum(['pool', 'merge']).default('pool').describe('Combine chunks of long text into one query, or search each chunk and merge'),
+  diversity: z.number().min(0).max(1).default(0).describe('Trade relevance for variety among results (0-1, MMR)'),
+});
+
+export const SearchBlocksSchema = z.object({
   query: z.string().min(1).max(500).describe('Text to search for (max 500 characters)'),
+  notePath: z.string().optional().describe('Only search blocks within this note'),
   limit: z.number().min(1).max(50).default(10).describe('Maximum results to return (1-50)'),
   threshold: z.number().min(0).max(1).default(0.3).describe('Minimum similarity score (0-1)'),
+  diversity: z.number().min(0).max(1).default(0).describe('Trade relevance for variety among results (0-1, MMR)'),
 });
 
 // ============================================================================
 // Tool Definitions (for MCP registration)
 // ============================================================================
 
+const diversityProperty = {
+  type: 'number',
+  description: 'Optional: re-rank by Maximal Marginal Relevance so results are distinct rather than near-duplicates. 0 ranks by relevance only (default), higher values favour variety; 0.6 is a good starting point',
+  default: 0,
+};
+
+const compositeExampleProperty = {
+  type: 'object',
+  properties: {
+    notePath: {
+      type: 'string',
+      description: 'Indexed note path, or a folder ending in "/" to use the average of its notes',
+    },
+    text: {
+      type: 'string',
+      description: 'Free text, embedded locally (max 500 characters; needs text search)',
+    },
+    weight: {
+      type: 'number',
+      description: 'How strongly this example counts (0-10, default: 1)',
+      default: 1,
+    },
+  },
+  description: 'Exactly one of notePath or text',
+};
+
+const filterProperties = {
+  include: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Optional: only notes matching one of these globs (e.g., "Projects/**"). "*" matches within a folder, "**" across folders',
+  },
+  exclude: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Optional: skip notes matching any of these globs (e.g., "Archive/**", "**/Templates/**")',
+  },
+  tags: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Optional: only notes with all of these tags (frontmatter or inline; "project" also matches "project/alpha")',
+  },
+  frontmatter: {
+    type: 'object',
+    additionalProperties: { type: ['string', 'number', 'boolean'] },
+    description: 'Optional: only notes whose frontmatter has these values (e.g., {"status": "active"}); list values match if they contain the value',
+  },
+  modifiedAfter: {
+    type: 'string',
+    description: 'Optional: only notes modified after this ISO date (e.g., "2024-01-31")',
+  },
+  modifiedBefore: {
+    type: 'string',
+    description: 'Optional: only notes modified before this ISO date',
+  },
+};
+
 export const toolDefinitions = [
   {
     name: 'search_by_text',
-    description: 'Search for notes using freeform text. Computes embedding locally using the same model as Smart Connections, then finds semantically similar notes.',
+    description: 'Search for notes using freeform text. Computes embedding locally using the same model as Smart Connections, then finds semantically similar notes. Keyword mode ranks by BM25 over note text (good for exact identifiers and names); hybrid mode fuses both rankings.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Text to search for: a short query, or a passage such as a draft paragraph (up to 8000 characters by default). Text over 500 characters is split at sentence boundaries and embedded in chunks',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum results to return (1-50, default: 10)',
+          default: 10,
+        },
+        threshold: {
+          type: 'number',
+          description: 'Minimum similarity score (0-1, default: 0.3)',
+          default: 0.3,
+        },
+        granularity: {
+          type: 'string',
+          enum: ['note', 'block'],
+          description: 'Return whole notes or individual blocks (default: note)',
+          default: 'note',
+        },
+        mode: {
+          type: 'string',
+          enum: ['semantic', 'keyword', 'hybrid'],
+          description: 'semantic (embeddings), keyword (BM25 over note text) or hybrid (both, merged by reciprocal rank fusion). Keyword and hybrid support note granularity only; threshold applies to the semantic ranking. Default: semantic',
+          default: 'semantic',
+        },
+        rerank: {
+          type: 'boolean',
+          description: 'Rescore the top results with the local cross-encoder, if the server has one configured (default: true). The response says whether results were reranked',
+        },
+        longQuery: {
+          type: 'string',
+          enum: ['pool', 'merge'],
+          description: 'For chunked text: pool averages the chunk embeddings into one query (notes about the passage as a whole); merge searches each chunk and keeps each note\'s best score (notes matching any part). Default: pool',
+          default: 'pool',
+        },
+        diversity: diversityProperty,
+        ...filterProperties,
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'search_blocks',
+    description: 'Search note sections (blocks) using freeform text. Returns the parent note, heading path and line range of each matching block, so the exact section can be quoted.',
     inputSchema: {
       type: 'object' as const,
       properties: {
@@ -68,6 +284,10 @@ export const toolDefinitions = [
           type: 'string',
           description: 'Text to search for (max 500 characters)',
         },
+        notePath: {
+          type: 'string',
+          description: 'Optional: only search blocks within this note',
+        },
         limit: {
           type: 'number',
           description: 'Maximum results to return (1-50, default: 10)',
@@ -78,6 +298,7 @@ export const toolDefinitions = [
           description: 'Minimum similarity score (0-1, default: 0.3)',
           default: 0.3,
         },
+        diversity: diversityProperty,
       },
       required: ['query'],
     },
@@ -102,6 +323,8 @@ export const toolDefinitions = [
           description: 'Minimum similarity score (0-1, default: 0.3)',
           default: 0.3,
         },
+        diversity: diversityProperty,
+        ...filterProperties,
       },
       required: ['notePath'],
     },
@@ -127,10 +350,44 @@ export const toolDefinitions = [
           description: 'Minimum similarity score (0-1, default: 0.3)',
           default: 0.3,
         },
+        diversity: diversityProperty,
+        ...filterProperties,
       },
       required: ['embedding'],
     },
   },
+  {
+    name: 'search_composite',
+    description: 'Find notes like some examples and unlike others. Each example is an indexed note, a folder (all its notes) or free text; the weighted examples are combined into one query vector, e.g. like "Projects/Alpha.md" and "incident response" but not "Meeting_Notes/"',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        positive: {
+          type: 'array',
+          items: compositeExampleProperty,
+          description: 'Examples results should resemble (1-10)',
+        },
+        negative: {
+          type: 'array',
+          items: compositeExampleProperty,
+          description: 'Optional: examples results should not resemble (up to 10)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum results to return (1-50, default: 10)',
+          default: 10,
+        },
+        threshold: {
+          type: 'number',
+          description: 'Minimum similarity score (0-1, default: 0.3)',
+          default: 0.3,
+        },
+        diversity: diversityProperty,
+        ...filterProperties,
+      },
+      required: ['positive'],
+    },
+  },
   {
     name: 'get_note',
     description: 'Retrieve the content of a specific note from the vault',
@@ -147,7 +404,7 @@ export const toolDefinitions = [
   },
   {
     name: 'get_model_info',
-    description: 'Get information about the embedding model used by this vault',
+    description: 'Get information about the embedding model used by this vault, including query cache hit and miss counts',
     inputSchema: {
       type: 'object' as const,
       properties: {},
@@ -168,6 +425,169 @@ export const toolDefinitions = [
       required: [],
     },
   },
+  {
+    name: 'index_health',
+    description: 'Compare the index with the vault: notes changed since they were embedded (stale), notes with no embedding, and embeddings whose note was deleted',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        pattern: {
+          type: 'string',
+          description: 'Optional path prefix filter (e.g., "Topics/")',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum paths to list per category (1-50, default: 50)',
+          default: 50,
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'cluster_notes',
+    description: 'Group notes into topic clusters (k-means over their embeddings) for an overview of the main themes in the vault or a folder. Each cluster has a label from representative titles, its most central notes and its members. Deterministic for a given seed',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        pattern: {
+          type: 'string',
+          description: 'Optional path prefix filter (e.g., "Topics/")',
+        },
+        k: {
+          type: 'number',
+          description: 'Number of clusters (2-50, default: about sqrt(notes / 2))',
+        },
+        seed: {
+          type: 'number',
+          description: 'Random seed; the same seed gives the same clusters (default: 42)',
+          default: 42,
+        },
+        closest: {
+          type: 'number',
+          description: 'Notes closest to each cluster centre to list (1-20, default: 5)',
+          default: 5,
+        },
+        maxMembers: {
+          type: 'number',
+          description: 'Maximum member paths to list per cluster (0-500, default: 50)',
+          default: 50,
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'find_duplicates',
+    description: 'Find sets of near-duplicate notes (copy-pasted or half-merged) by embedding similarity, optionally within a folder. Can confirm each pair with a line-level text similarity ratio from the note files',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        pattern: {
+          type: 'string',
+          description: 'Optional path prefix filter (e.g., "Topics/")',
+        },
+        threshold: {
+          type: 'number',
+          description: 'Minimum similarity for a pair to count as duplicates (0.8-1, default: 0.95)',
+          default: 0.95,
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum duplicate sets to return (1-50, default: 20)',
+          default: 20,
+        },
+        verifyText: {
+          type: 'boolean',
+          description: 'Also read both notes of each listed pair (up to 100 pairs, notes up to 200 KB) and report a line-level similarity ratio (0-1) as textRatio (default: false)',
+          default: false,
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'suggest_links',
+    description: 'Suggest notes to link from a note: semantically similar notes that are neither linked from it nor link back to it. Each suggestion names the section (block) of the note where the link fits best',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        notePath: {
+          type: 'string',
+          description: 'Path to note relative to vault root (e.g., "Topics/Claude_Code.md")',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum suggestions to return (1-50, default: 10)',
+          default: 10,
+        },
+        threshold: {
+          type: 'number',
+          description: 'Minimum similarity score (0-1, default: 0.5)',
+          default: 0.5,
+        },
+      },
+      required: ['notePath'],
+    },
+  },
+  {
+    name: 'get_backlinks',
+    description: 'List the notes that link to (or embed) a note, via wikilinks or markdown links',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        notePath: {
+          type: 'string',
+          description: 'Path to note relative to vault root',
+        },
+      },
+      required: ['notePath'],
+    },
+  },
+  {
+    name: 'get_outlinks',
+    description: 'List the notes a note links to (or embeds), resolved the way Obsidian does, plus links to notes that do not exist',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        notePath: {
+          type: 'string',
+          description: 'Path to note relative to vault root',
+        },
+      },
+      required: ['notePath'],
+    },
+  },
+  {
+    name: 'get_neighbourhood',
+    description: 'List the notes within a few links of a note, with their distance and the links between them',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        notePath: {
+          type: 'string',
+          description: 'Path to note relative to vault root',
+        },
+        depth: {
+          type: 'number',
+          description: 'How many links away to go (1-3, default: 1)',
+          default: 1,
+        },
+        direction: {
+          type: 'string',
+          enum: ['out', 'in', 'both'],
+          description: 'Follow outlinks, backlinks or both (default: both)',
+          default: 'both',
+        },
+        maxNodes: {
+          type: 'number',
+          description: 'Maximum notes to return, including the starting note (1-200, default: 50)',
+          default: 50,
+        },
+      },
+      required: ['notePath'],
+    },
+  },
 ];
 
 // ============================================================================
@@ -177,9 +597,17 @@ export const toolDefinitions = [
 export interface ToolContext {
   config: Config;
   data: SmartConnectionsData;
-  embedder?: Embedder;
+  embedder?: QueryEmbedder;
+  textSearchDisabledReason?: string; // Why embedder is unavailable, shown to clients
+  keywordIndex: KeywordIndex;
+  linkGraph: LinkGraph;
+  noteMetadata: NoteMetadataIndex; // For tag, frontmatter and date filters
+  reranker?: CrossEncoder; // Optional cross-encoder for search_by_text
 }
 
+// find_duplicates lists at most this many pairs per duplicate set
+const MAX_PAIRS_PER_SET = 20;
+
 export type ToolResult = {
   content: Array<{ type: 'text'; text: string }>;
   isError?: boolean;
@@ -188,16 +616,21 @@ export type ToolResult = {
 /**
  * Handle search_similar tool call.
  */
-export function handleSearchSimilar(
+export async function handleSearchSimilar(
   args: unknown,
   ctx: ToolContext
-): ToolResult {
+): Promise<ToolResult> {
   const parsed = SearchSimilarSchema.safeParse(args);
   if (!parsed.success) {
     return errorResult(`Invalid arguments: ${parsed.error.message}`);
   }
 
-  const { notePath, limit, threshold } = parsed.data;
+  const { notePath, limit, threshold, diversity } = parsed.data;
+
+  const { filter, error } = await searchFilter(ctx, parsed.data);
+  if (error) {
+    return errorResult(error);
+  }
 
   // Validate the note path exists in index (no filesystem access needed for search)
   const normalizedPath = notePath.replace(/^\/+/, '');
@@ -205,36 +638,41 @@ export function handleSearchSimilar(
     return errorResult(`Note not found in index: ${notePath}`);
   }
 
-  const results = findSimilarToNote(normalizedPath, ctx.data.entries, {
-    limit: validateLimit(limit, 1, ctx.config.limits.maxResults, 'limit'),
+  const maxResults = validateLimit(limit, 1, ctx.config.limits.maxResults, 'limit');
+  const candidates = findSimilarToNote(normalizedPath, ctx.data.noteIndex, {
+    limit: candidatePoolSize(maxResults, diversity),
     threshold,
+    filter,
   });
 
-  if (!results) {
+  if (!candidates) {
     return errorResult(`Note not found in index: ${notePath}`);
   }
 
-  log('INFO', 'search_similar', { notePath, resultCount: results.length });
+  const { noteIndex } = ctx.data;
+  const results = diversify(candidates, r => noteIndex.getVector(r.path), maxResults, diversity);
+
+  log('INFO', 'search_similar', { notePath, filtered: filter !== undefined, resultCount: results.length });
 
   return successResult({
     query: notePath,
-    results,
+    results: annotateStaleness(ctx.config, ctx.data.entries, results),
   });
 }
 
 /**
  * Handle search_by_embedding tool call.
  */
-export function handleSearchByEmbedding(
+export async function handleSearchByEmbedding(
   args: unknown,
   ctx: ToolContext
-): ToolResult {
+): Promise<ToolResult> {
   const parsed = SearchByEmbeddingSchema.safeParse(args);
   if (!parsed.success) {
     return errorResult(`Invalid arguments: ${parsed.error.message}`);
   }
 
-  const { embedding, limit, threshold } = parsed.data;
+  const { embedding, limit, threshold, diversity } = parsed.data;
 
   // Validate embedding dimensions
   const validation = validateEmbedding(embedding, ctx.data.modelInfo.dimensions);
@@ -242,61 +680,305 @@ export function handleSearchByEmbedding(
     return errorResult(validation.error!);
   }
 
-  const results = findSimilar(embedding, ctx.data.entries, {
-    limit: validateLimit(limit, 1, ctx.config.limits.maxResults, 'limit'),
+  const { filter, error } = await searchFilter(ctx, parsed.data);
+  if (error) {
+    return errorResult(error);
+  }
+
+  const { noteIndex } = ctx.data;
+  const maxResults = validateLimit(limit, 1, ctx.config.limits.maxResults, 'limit');
+  const candidates = findSimilar(embedding, noteIndex, {
+    limit: candidatePoolSize(maxResults, diversity),
     threshold,
+    filter,
   });
+  const results = diversify(candidates, r => noteIndex.getVector(r.path), maxResults, diversity);
 
-  log('INFO', 'search_by_embedding', { resultCount: results.length });
+  log('INFO', 'search_by_embedding', { filtered: filter !== undefined, resultCount: results.length });
 
   return successResult({
-    results,
+    results: annotateStaleness(ctx.config, ctx.data.entries, results),
   });
 }
 
 /**
  * Handle search_by_text tool call.
  *
- * Computes embedding for the query text locally, then searches.
- * Requires embedder to be initialized at startup.
+ * Semantic mode computes an embedding for the query text locally, which
+ * requires the embedder to be initialized at startup. Keyword mode needs
+ * no embedder; hybrid mode needs both.
  */
 export async function handleSearchByText(
   args: unknown,
-  ctx: ToolContext
+  ctx: ToolContext,
+  signal?: AbortSignal
 ): Promise<ToolResult> {
+  const parsed = SearchByTextSchema.safeParse(args);
+  if (!parsed.success) {
+    return errorResult(`Invalid arguments: ${parsed.error.message}`);
+  }
+
+  const { query, limit, threshold, granularity, mode, longQuery, diversity } = parsed.data;
+
+  const maxLength = ctx.config.limits.maxPassageLength;
+  if (query.length > maxLength) {
+    return errorResult(`Query too long: ${query.length} characters (max ${maxLength})`);
+  }
+
+  if (mode !== 'semantic' && granularity === 'block') {
+    return errorResult(`Mode "${mode}" supports note granularity only`);
+  }
+
+  const { filter, error } = await searchFilter(ctx, parsed.data);
+  if (error) {
+    return errorResult(error);
+  }
+
   // Check if embedder is available
+  if (mode !== 'keyword' && (!ctx.embedder || !ctx.embedder.isReady())) {
+    return textSearchUnavailable(ctx);
+  }
+
+  // Rerank by default when a reranker is loaded; degrade to cosine otherwise
+  const rerank = (parsed.data.rerank ?? true) && (ctx.reranker?.isReady() ?? false);
+
+  // Capture the index once: a reload may swap ctx.data while we await
+  const { data } = ctx;
+  const maxResults = validateLimit(limit, 1, ctx.config.limits.maxResults, 'limit');
+  const pool = Math.max(candidatePoolSize(maxResults, diversity), rerank ? RERANK_CANDIDATES : 0);
+
+  let candidates: SearchResult[];
+  let vectorOf = (r: SearchResult) => data.noteIndex.getVector(r.path);
+  const keyOf = granularity === 'block' ? (r: SearchResult) => (r as BlockSearchResult).block : (r: SearchResult) => r.path;
+
+  // BM25 takes text of any length; the embedder takes maxQueryChars
+  // characters at a time, so longer text is embedded chunk by chunk
+  const chunks = mode === 'keyword' ? [query] : splitQuery(query, maxQueryChars(ctx.embedder!.getProfile()));
+
+  if (mode === 'keyword') {
+    candidates = keywordResults(await ctx.keywordIndex.search(query, { limit: pool, filter }));
+  } else {
+    // Compute embeddings for the query text
+    const embeddings: number[][] = [];
+    try {
+      for (const chunk of chunks) {
+        embeddings.push(await ctx.embedder!.embed(chunk, signal));
+      }
+    } catch (e) {
+      return embedFailed('search_by_text', e);
+    }
+
+    // Pooling weighs chunks by length; merging keeps each result's best chunk
+    let queryVectors: ArrayLike<number>[] = embeddings;
+    if (embeddings.length > 1 && longQuery === 'pool') {
+      const parts = embeddings.map((vector, i) => ({ vector, weight: chunks[i].length }));
+      queryVectors = [combineVectors(parts, data.modelInfo.dimensions) ?? embeddings[0]];
+    }
+    const semanticSearch = (depth: number): SearchResult[] => mergeRankings(
+      queryVectors.map(embedding => granularity === 'block'
+        ? findSimilarBlocks(embedding, data.blockIndex, data.blocks, { limit: depth, threshold, filter })
+        : findSimilar(embedding, data.noteIndex, { limit: depth, threshold, filter })),
+      keyOf,
+      depth
+    );
+
+    if (mode === 'hybrid') {
+      // Fuse deeper rankings than we return, so a note ranked moderately
+      // by both signals can beat one ranked highly by only one
+      const depth = Math.max(ctx.config.limits.maxResults, pool);
+      const keyword = await ctx.keywordIndex.search(query, { limit: depth, filter });
+      candidates = fuseRankings(semanticSearch(depth), keyword, pool);
+    } else {
+      candidates = semanticSearch(pool);
+      if (granularity === 'block') {
+        vectorOf = (r) => data.blockIndex.getVector((r as BlockSearchResult).block);
+      }
+    }
+  }
+
+  // Cross-encoder pass over the top candidates; the rest keep their order
+  let reranked = false;
+  let relevanceOf = (r: SearchResult & { rerankScore?: number }) => r.score;
+  if (rerank) {
+    const rescored = await rerankResults(ctx.config, ctx.reranker!, query, candidates.slice(0, RERANK_CANDIDATES), signal);
+    if (rescored) {
+      candidates = [...rescored, ...candidates.slice(RERANK_CANDIDATES)];
+      relevanceOf = (r) => r.rerankScore ?? 0;
+      reranked = true;
+    }
+  }
+
+  const results = diversify(candidates, vectorOf, maxResults, diversity, relevanceOf);
+
+  log('INFO', 'search_by_text', {
+    queryLength: query.length,
+    granularity,
+    mode,
+    filtered: filter !== undefined,
+    chunks: chunks.length,
+    reranked,
+    resultCount: results.length,
+  });
+
+  return successResult({
+    query,
+    granularity,
+    mode,
+    ...(chunks.length > 1 && {
+      chunking: { chunks: chunks.length, strategy: longQuery, chunkLengths: chunks.map(c => c.length) },
+    }),
+    reranked,
+    results: annotateStaleness(ctx.config, data.entries, results),
+  });
+}
+
+/**
+ * Handle search_blocks tool call.
+ *
+ * Like search_by_text, but always searches block embeddings and can be
+ * scoped to the blocks of a single note.
+ */
+export async function handleSearchBlocks(
+  args: unknown,
+  ctx: ToolContext,
+  signal?: AbortSignal
+): Promise<ToolResult> {
   if (!ctx.embedder || !ctx.embedder.isReady()) {
-    return errorResult('Text search not available: embedder not initialized');
+    return textSearchUnavailable(ctx);
   }
 
-  const parsed = SearchByTextSchema.safeParse(args);
+  const parsed = SearchBlocksSchema.safeParse(args);
   if (!parsed.success) {
     return errorResult(`Invalid arguments: ${parsed.error.message}`);
   }
 
-  const { query, limit, threshold } = parsed.data;
+  const { query, notePath, limit, threshold, diversity } = parsed.data;
+
+  // Capture the index once: a reload may swap ctx.data while we await
+  const { data } = ctx;
+
+  const normalizedPath = notePath?.replace(/^\/+/, '');
+  if (normalizedPath && !data.entries.has(normalizedPath)) {
+    return errorResult(`Note not found in index: ${notePath}`);
+  }
 
-  // Compute embedding for the query text
   let embedding: number[];
   try {
-    embedding = await ctx.embedder.embed(query);
+    embedding = await ctx.embedder.embed(query, signal);
   } catch (e) {
-    log('ERROR', 'search_by_text_embed_failed', { error: String(e) });
-    // Don't expose internal error details to client
-    return errorResult('Failed to compute embedding');
+    return embedFailed('search_blocks', e);
   }
 
-  // Search using the computed embedding
-  const results = findSimilar(embedding, ctx.data.entries, {
-    limit: validateLimit(limit, 1, ctx.config.limits.maxResults, 'limit'),
+  const maxResults = validateLimit(limit, 1, ctx.config.limits.maxResults, 'limit');
+  const candidates = findSimilarBlocks(embedding, data.blockIndex, data.blocks, {
+    limit: candidatePoolSize(maxResults, diversity),
     threshold,
+    notePath: normalizedPath,
   });
+  const results = diversify(candidates, r => data.blockIndex.getVector(r.block), maxResults, diversity);
 
-  log('INFO', 'search_by_text', { queryLength: query.length, resultCount: results.length });
+  log('INFO', 'search_blocks', { queryLength: query.length, resultCount: results.length });
 
   return successResult({
     query,
-    results,
+    ...(normalizedPath && { notePath: normalizedPath }),
+    results: annotateStaleness(ctx.config, data.entries, results),
+  });
+}
+
+/**
+ * Handle search_composite tool call.
+ *
+ * Resolves every example to a vector (stored note embeddings, folder
+ * centroids or locally embedded text), combines them with their weights
+ * (negatives subtract) and searches with the result.
+ */
+export async function handleSearchComposite(
+  args: unknown,
+  ctx: ToolContext,
+  signal?: AbortSignal
+): Promise<ToolResult> {
+  const parsed = SearchCompositeSchema.safeParse(args);
+  if (!parsed.success) {
+    return errorResult(`Invalid arguments: ${parsed.error.message}`);
+  }
+
+  const { positive, negative, limit, threshold, diversity } = parsed.data;
+
+  const { filter, error } = await searchFilter(ctx, parsed.data);
+  if (error) {
+    return errorResult(error);
+  }
+
+  const needsEmbedder = [...positive, ...negative].some(e => e.text !== undefined);
+  if (needsEmbedder && (!ctx.embedder || !ctx.embedder.isReady())) {
+    return textSearchUnavailable(ctx);
+  }
+
+  // Capture the index once: a reload may swap ctx.data while we await
+  const { data } = ctx;
+  const { dimensions } = data.modelInfo;
+
+  const parts: Array<{ vector: ArrayLike<number>; weight: number }> = [];
+  const inputNotes = new Set<string>();
+
+  for (const [examples, sign] of [[positive, 1], [negative, -1]] as const) {
+    for (const example of examples) {
+      let vector: ArrayLike<number> | null | undefined;
+
+      if (example.text !== undefined) {
+        try {
+          vector = await ctx.embedder!.embed(example.text, signal);
+        } catch (e) {
+          return embedFailed('search_composite', e);
+        }
+      } else {
+        const notePath = example.notePath!.replace(/^\/+/, '');
+        if (notePath.endsWith('/')) {
+          const vectors = [...data.entries.keys()]
+            .filter(p => p.startsWith(notePath))
+            .map(p => data.noteIndex.getVector(p))
+            .filter((v): v is Float32Array => v !== undefined);
+          vector = centroid(vectors, dimensions);
+          if (!vector) {
+            return errorResult(`No indexed notes in folder: ${example.notePath}`);
+          }
+        } else {
+          vector = data.noteIndex.getVector(notePath);
+          if (!vector) {
+            return errorResult(`Note not found in index: ${example.notePath}`);
+          }
+          inputNotes.add(notePath);
+        }
+      }
+
+      parts.push({ vector, weight: sign * example.weight });
+    }
+  }
+
+  const query = combineVectors(parts, dimensions);
+  if (!query) {
+    return errorResult('Positive and negative examples cancel out; adjust the weights');
+  }
+
+  const maxResults = validateLimit(limit, 1, ctx.config.limits.maxResults, 'limit');
+  const candidates = findSimilar(query, data.noteIndex, {
+    limit: candidatePoolSize(maxResults, diversity),
+    threshold,
+    // The example notes themselves would top the results
+    filter: (notePath) => !inputNotes.has(notePath) && (!filter || filter(notePath)),
+  });
+  const results = diversify(candidates, r => data.noteIndex.getVector(r.path), maxResults, diversity);
+
+  log('INFO', 'search_composite', {
+    positive: positive.length,
+    negative: negative.length,
+    filtered: filter !== undefined,
+    resultCount: results.length,
+  });
+
+  return successResult({
+    results: annotateStaleness(ctx.config, data.entries, results),
   });
 }
 
@@ -353,10 +1035,25 @@ export function handleGetModelInfo(
   _args: unknown,
   ctx: ToolContext
 ): ToolResult {
+  const profile = ctx.embedder?.getProfile() ?? getModelProfile(ctx.data.modelInfo.modelKey);
+
   return successResult({
     modelKey: ctx.data.modelInfo.modelKey,
     dimensions: ctx.data.modelInfo.dimensions,
     adapter: ctx.data.modelInfo.adapter,
+    queryProfile: {
+      pooling: profile.pooling,
+      normalize: profile.normalize,
+      maxTokens: profile.maxTokens,
+      queryPrefix: profile.queryPrefix,
+    },
+    textSearchEnabled: ctx.embedder?.isReady() ?? false,
+    modelSource: ctx.embedder?.getSource() ?? null,
+    ...(ctx.textSearchDisabledReason && { textSearchDisabledReason: ctx.textSearchDisabledReason }),
+    rerankerModel: ctx.reranker?.isReady() ? ctx.reranker.getModelKey() : null,
+    ...(ctx.reranker?.isReady() && { rerankerSource: ctx.reranker.getSource() }),
+    queryCache: ctx.embedder instanceof CachedEmbedder ? ctx.embedder.getStats() : null,
+    excludedEntries: ctx.data.excluded.length,
   });
 }
 
@@ -374,9 +1071,9 @@ export function handleListIndexed(
 
   const { pattern } = parsed.data;
 
-  const notes: Array<{ path: string; title: string }> = [];
+  const notes: Array<{ path: string; title: string; source?: 'local' }> = [];
 
-  for (const [notePath] of ctx.data.entries) {
+  for (const [notePath, entry] of ctx.data.entries) {
     // Apply pattern filter if provided
     if (pattern && !notePath.startsWith(pattern)) {
       continue;
@@ -385,6 +1082,7 @@ export function handleListIndexed(
     notes.push({
       path: notePath,
       title: extractTitle(notePath),
+      ...(entry.origin === 'local' && { source: 'local' as const }),
     });
   }
 
@@ -397,6 +1095,322 @@ export function handleListIndexed(
   });
 }
 
+/**
+ * Handle index_health tool call.
+ */
+export async function handleIndexHealth(
+  args: unknown,
+  ctx: ToolContext
+): Promise<ToolResult> {
+  const parsed = IndexHealthSchema.safeParse(args);
+  if (!parsed.success) {
+    return errorResult(`Invalid arguments: ${parsed.error.message}`);
+  }
+
+  const { pattern, limit } = parsed.data;
+  const max = validateLimit(limit, 1, ctx.config.limits.maxResults, 'limit');
+
+  const health = await checkIndexHealth(ctx.config, ctx.data);
+
+  // Report totals, but cap the listed paths to keep responses bounded
+  const summarize = (paths: string[]) => {
+    const matching = pattern ? paths.filter(p => p.startsWith(pattern)) : paths;
+    return { count: matching.length, notes: matching.slice(0, max) };
+  };
+
+  const result = {
+    indexedNotes: ctx.data.entries.size,
+    ...(ctx.data.local && { locallyIndexedNotes: ctx.data.local.notes.size }),
+    stale: summarize(health.stale),
+    unembedded: summarize(health.unembedded),
+    orphaned: summarize(health.orphaned),
+  };
+
+  log('INFO', 'index_health', {
+    stale: result.stale.count,
+    unembedded: result.unembedded.count,
+    orphaned: result.orphaned.count,
+  });
+
+  return successResult(result);
+}
+
+/**
+ * Handle cluster_notes tool call.
+ */
+export async function handleClusterNotes(
+  args: unknown,
+  ctx: ToolContext
+): Promise<ToolResult> {
+  const parsed = ClusterNotesSchema.safeParse(args);
+  if (!parsed.success) {
+    return errorResult(`Invalid arguments: ${parsed.error.message}`);
+  }
+
+  const { pattern, seed, closest, maxMembers } = parsed.data;
+
+  const notePaths = [...ctx.data.entries.keys()].filter(p => !pattern || p.startsWith(pattern));
+  if (notePaths.length < 2) {
+    return errorResult(`Not enough indexed notes to cluster${pattern ? ` under ${pattern}` : ''}`);
+  }
+  if (notePaths.length > MAX_CLUSTER_SCOPE) {
+    return errorResult(`Too many notes in scope (${notePaths.length}, max ${MAX_CLUSTER_SCOPE}); narrow it with pattern`);
+  }
+
+  const k = parsed.data.k ?? defaultClusterCount(notePaths.length);
+  const started = Date.now();
+  const clusters = await clusterNotes(ctx.data.noteIndex, notePaths, { k, seed });
+
+  log('INFO', 'cluster_notes', {
+    pattern,
+    noteCount: notePaths.length,
+    k,
+    clusterCount: clusters.length,
+    durationMs: Date.now() - started,
+  });
+
+  return successResult({
+    noteCount: notePaths.length,
+    k,
+    seed,
+    clusters: clusters.map(({ label, members }) => ({
+      label,
+      size: members.length,
+      closest: members.slice(0, closest).map(m => ({
+        path: m.path,
+        title: extractTitle(m.path),
+        similarity: Math.round(m.similarity * 1000) / 1000,
+      })),
+      members: members.slice(0, maxMembers).map(m => m.path),
+    })),
+  });
+}
+
+/**
+ * Handle find_duplicates tool call.
+ */
+export async function handleFindDuplicates(
+  args: unknown,
+  ctx: ToolContext
+): Promise<ToolResult> {
+  const parsed = FindDuplicatesSchema.safeParse(args);
+  if (!parsed.success) {
+    return errorResult(`Invalid arguments: ${parsed.error.message}`);
+  }
+
+  const { pattern, threshold, limit, verifyText } = parsed.data;
+  const max = validateLimit(limit, 1, ctx.config.limits.maxResults, 'limit');
+
+  const notePaths = [...ctx.data.entries.keys()].filter(p => !pattern || p.startsWith(pattern));
+  if (notePaths.length > MAX_DUPLICATE_SCOPE) {
+    return errorResult(`Too many notes in scope (${notePaths.length}, max ${MAX_DUPLICATE_SCOPE}); narrow it with pattern`);
+  }
+
+  const started = Date.now();
+  const { sets, threshold: effectiveThreshold, truncated } = await findDuplicates(ctx.data.noteIndex, notePaths, threshold);
+
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+
+  // Text comparison reads files and diffs lines: sliced, and only for the
+  // first MAX_TEXT_PAIRS pairs listed
+  const pause = timeSlicer();
+  let textPairs = 0;
+  const listedSets = [];
+  for (const set of sets.slice(0, max)) {
+    const pairs = [];
+    // Large sets have many pairs; list the closest ones
+    for (const { a, b, score } of set.pairs.slice(0, MAX_PAIRS_PER_SET)) {
+      let textRatio: number | undefined;
+      if (verifyText && textPairs < MAX_TEXT_PAIRS) {
+        textPairs++;
+        textRatio = await textSimilarity(ctx.config, a, b, pause);
+      }
+      pairs.push({
+        a,
+        b,
+        score: round(score),
+        ...(textRatio !== undefined && { textRatio: round(textRatio) }),
+      });
+    }
+    listedSets.push({
+      notes: set.notes,
+      maxScore: round(set.maxScore),
+      pairCount: set.pairs.length,
+      pairs,
+    });
+  }
+
+  const result = {
+    noteCount: notePaths.length,
+    setCount: sets.length,
+    // Too many matching pairs: only the closest were kept
+    ...(truncated && { truncated, effectiveThreshold: round(effectiveThreshold) }),
+    sets: listedSets,
+  };
+
+  log('INFO', 'find_duplicates', {
+    pattern,
+    noteCount: notePaths.length,
+    setCount: sets.length,
+    truncated,
+    verifyText,
+    durationMs: Date.now() - started,
+  });
+
+  return successResult(result);
+}
+
+/**
+ * Handle suggest_links tool call.
+ */
+export async function handleSuggestLinks(
+  args: unknown,
+  ctx: ToolContext
+): Promise<ToolResult> {
+  const parsed = SuggestLinksSchema.safeParse(args);
+  if (!parsed.success) {
+    return errorResult(`Invalid arguments: ${parsed.error.message}`);
+  }
+
+  const { notePath, limit, threshold } = parsed.data;
+  const { data } = ctx;
+
+  const normalizedPath = notePath.replace(/^\/+/, '');
+  if (!data.entries.has(normalizedPath)) {
+    return errorResult(`Note not found in index: ${notePath}`);
+  }
+
+  // Already connected in either direction
+  await ctx.linkGraph.ready();
+  const linked = new Set([
+    ...ctx.linkGraph.outlinks(normalizedPath).resolved,
+    ...ctx.linkGraph.backlinks(normalizedPath),
+  ]);
+
+  const results = findSimilarToNote(normalizedPath, data.noteIndex, {
+    limit: validateLimit(limit, 1, ctx.config.limits.maxResults, 'limit'),
+    threshold,
+    filter: (candidate) => !linked.has(candidate),
+  }) ?? [];
+
+  // Where in the source note would each link fit? Its closest block.
+  const suggestions = results.map(result => {
+    const target = data.noteIndex.getVector(result.path);
+    const [block] = target
+      ? findSimilarBlocks(target, data.blockIndex, data.blocks, { limit: 1, threshold: 0, notePath: normalizedPath })
+      : [];
+    return {
+      ...result,
+      ...(block && {
+        sourceBlock: {
+          block: block.block,
+          headings: block.headings,
+          ...(block.lines && { lines: block.lines }),
+          score: block.score,
+        },
+      }),
+    };
+  });
+
+  log('INFO', 'suggest_links', { notePath, linkedCount: linked.size, resultCount: suggestions.length });
+
+  return successResult({
+    notePath: normalizedPath,
+    linkedCount: linked.size,
+    suggestions: annotateStaleness(ctx.config, data.entries, suggestions),
+  });
+}
+
+/**
+ * Handle get_backlinks tool call.
+ */
+export async function handleGetBacklinks(
+  args: unknown,
+  ctx: ToolContext
+): Promise<ToolResult> {
+  const parsed = GetLinksSchema.safeParse(args);
+  if (!parsed.success) {
+    return errorResult(`Invalid arguments: ${parsed.error.message}`);
+  }
+
+  const notePath = await resolveGraphNote(ctx, parsed.data.notePath);
+  if (typeof notePath !== 'string') {
+    return notePath;
+  }
+
+  const backlinks = ctx.linkGraph.backlinks(notePath);
+
+  log('INFO', 'get_backlinks', { notePath, count: backlinks.length });
+
+  return successResult({
+    notePath,
+    count: backlinks.length,
+    backlinks: backlinks.map(p => ({ path: p, title: extractTitle(p) })),
+  });
+}
+
+/**
+ * Handle get_outlinks tool call.
+ */
+export async function handleGetOutlinks(
+  args: unknown,
+  ctx: ToolContext
+): Promise<ToolResult> {
+  const parsed = GetLinksSchema.safeParse(args);
+  if (!parsed.success) {
+    return errorResult(`Invalid arguments: ${parsed.error.message}`);
+  }
+
+  const notePath = await resolveGraphNote(ctx, parsed.data.notePath);
+  if (typeof notePath !== 'string') {
+    return notePath;
+  }
+
+  const { resolved, unresolved } = ctx.linkGraph.outlinks(notePath);
+
+  log('INFO', 'get_outlinks', { notePath, count: resolved.length, unresolved: unresolved.length });
+
+  return successResult({
+    notePath,
+    count: resolved.length,
+    outlinks: resolved.map(p => ({ path: p, title: extractTitle(p) })),
+    unresolved,
+  });
+}
+
+/**
+ * Handle get_neighbourhood tool call.
+ */
+export async function handleGetNeighbourhood(
+  args: unknown,
+  ctx: ToolContext
+): Promise<ToolResult> {
+  const parsed = GetNeighbourhoodSchema.safeParse(args);
+  if (!parsed.success) {
+    return errorResult(`Invalid arguments: ${parsed.error.message}`);
+  }
+
+  const { depth, direction, maxNodes } = parsed.data;
+
+  const notePath = await resolveGraphNote(ctx, parsed.data.notePath);
+  if (typeof notePath !== 'string') {
+    return notePath;
+  }
+
+  const { nodes, edges, truncated } = ctx.linkGraph.neighbourhood(notePath, { depth, direction, maxNodes });
+
+  log('INFO', 'get_neighbourhood', { notePath, depth, direction, nodeCount: nodes.length, truncated });
+
+  return successResult({
+    notePath,
+    depth,
+    direction,
+    nodes: nodes.map(n => ({ ...n, title: extractTitle(n.path) })),
+    edges,
+    truncated,
+  });
+}
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
@@ -407,34 +1421,113 @@ function successResult(data: unknown): ToolResult {
   };
 }
 
-function errorResult(message: string): ToolResult {
+function errorResult(message: string, code?: string): ToolResult {
   return {
-    content: [{ type: 'text', text: JSON.stringify({ error: message }) }],
+    content: [{ type: 'text', text: JSON.stringify({ error: message, ...(code && { code }) }) }],
     isError: true,
   };
 }
 
+/**
+ * Error result for a failed query embedding. Refused, timed out and
+ * cancelled requests say so (with a code clients can act on, such as
+ * retrying on `queue_full`); other failures stay generic.
+ */
+function embedFailed(tool: string, e: unknown): ToolResult {
+  if (e instanceof EmbedRequestError) {
+    log('WARN', `${tool}_embed_${e.code}`);
+    return errorResult(e.message, e.code);
+  }
+
+  log('ERROR', `${tool}_embed_failed`, { error: String(e) });
+  // Don't expose internal error details to client
+  return errorResult('Failed to compute embedding');
+}
+
+/**
+ * Compile the filter arguments of a search tool.
+ */
+async function searchFilter(
+  ctx: ToolContext,
+  filters: SearchFilters
+): Promise<{ filter?: NoteFilter; error?: string }> {
+  try {
+    return { filter: await compileFilters(ctx.noteMetadata, filters) };
+  } catch (e) {
+    return { error: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+/**
+ * Validate a note path for the link graph tools. Returns the vault-relative
+ * path, or an error result.
+ */
+async function resolveGraphNote(ctx: ToolContext, notePath: string): Promise<string | ToolResult> {
+  // SECURITY: Same confinement as get_note, even though the graph is in memory
+  const validation = validateNotePath(ctx.config, notePath);
+  if (!validation.valid) {
+    return errorResult(validation.error!);
+  }
+
+  const normalizedPath = notePath.trim().replace(/^\/+/, '');
+  await ctx.linkGraph.ready();
+
+  // The note exists, so if the graph doesn't know it yet, it is out of date
+  if (!ctx.linkGraph.has(normalizedPath)) {
+    await ctx.linkGraph.refresh();
+  }
+  if (!ctx.linkGraph.has(normalizedPath)) {
+    return errorResult(`Note not found in link graph: ${notePath}`);
+  }
+
+  return normalizedPath;
+}
+
+function textSearchUnavailable(ctx: ToolContext): ToolResult {
+  const reason = ctx.textSearchDisabledReason ?? 'embedder not initialized';
+  return errorResult(`Text search not available: ${reason}`);
+}
+
 /**
  * Route a tool call to the appropriate handler.
  */
 export async function handleToolCall(
   name: string,
   args: unknown,
-  ctx: ToolContext
+  ctx: ToolContext,
+  signal?: AbortSignal // Aborted when the client cancels the request
 ): Promise<ToolResult> {
   switch (name) {
     case 'search_by_text':
-      return handleSearchByText(args, ctx);
+      return handleSearchByText(args, ctx, signal);
+    case 'search_blocks':
+      return handleSearchBlocks(args, ctx, signal);
     case 'search_similar':
       return handleSearchSimilar(args, ctx);
     case 'search_by_embedding':
       return handleSearchByEmbedding(args, ctx);
+    case 'search_composite':
+      return handleSearchComposite(args, ctx, signal);
     case 'get_note':
       return handleGetNote(args, ctx);
     case 'get_model_info':
       return handleGetModelInfo(args, ctx);
     case 'list_indexed':
       return handleListIndexed(args, ctx);
+    case 'index_health':
+      return handleIndexHealth(args, ctx);
+    case 'cluster_notes':
+      return handleClusterNotes(args, ctx);
+    case 'find_duplicates':
+      return handleFindDuplicates(args, ctx);
+    case 'suggest_links':
+      return handleSuggestLinks(args, ctx);
+    case 'get_backlinks':
+      return handleGetBacklinks(args, ctx);
+    case 'get_outlinks':
+      return handleGetOutlinks(args, ctx);
+    case 'get_neighbourhood':
+      return handleGetNeighbourhood(args, ctx);
     default:
       return errorResult(`Unknown tool: ${name}`);
   }
@@ -0,0 +1,216 @@
+/**
+ * Vault enumeration.
+ *
+ * Lists the markdown notes in the vault, applying the same rules as
+ * validateNotePath: hidden files and directories are skipped, and
+ * symlinks are never followed.
+ *
+ * VaultScanner keeps indexes built from note contents (keyword index,
+ * link graph, filter metadata) in sync with the vault: it re-lists the
+ * vault in the background, a slice at a time, and hands them only the
+ * notes whose mtime or size changed.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { Config, log, validateNotePath } from './security.js';
+import { timeSlicer } from './vectors.js';
+
+// Minimum time between scans started by queries
+const REFRESH_INTERVAL_MS = 30000;
+
+export interface NoteStats {
+  mtimeMs: number;
+  size: number;
+}
+
+/**
+ * An index fed by a VaultScanner.
+ */
+export interface VaultNoteConsumer {
+  update(notePath: string, content: string, stats: NoteStats): void; // New or changed note
+  remove(notePath: string): void; // Note no longer in the vault
+  scanned?(): void; // After a scan that changed anything
+}
+
+/**
+ * Reads changed notes once for all of its consumers.
+ *
+ * Each note is handed over in a single synchronous call, so a query
+ * running between slices of a scan sees every note either before or
+ * after its update.
+ */
+export class VaultScanner {
+  private config: Config;
+  private consumers: VaultNoteConsumer[] = [];
+  private notes = new Map<string, NoteStats>();
+  private firstScan: Promise<void> | null = null;
+  private scanning: Promise<void> | null = null;
+  private lastScan = 0;
+
+  constructor(config: Config) {
+    this.config = config;
+  }
+
+  /**
+   * Consumers must be added before the first scan.
+   */
+  addConsumer(consumer: VaultNoteConsumer): void {
+    this.consumers.push(consumer);
+  }
+
+  /**
+   * Resolves once the vault has been scanned at least once, starting the
+   * first scan on first use. After that it never waits: it starts a
+   * background scan if the last one is older than REFRESH_INTERVAL_MS,
+   * and queries use what has been indexed so far.
+   */
+  async ready(): Promise<void> {
+    if (!this.firstScan) {
+      this.firstScan = this.scan();
+    }
+    await this.firstScan;
+
+    if (!this.scanning && Date.now() - this.lastScan >= REFRESH_INTERVAL_MS) {
+      void this.scan();
+    }
+  }
+
+  /**
+   * Scan now, or join the scan in progress. Returns at once if the last
+   * scan started less than `minAgeMs` ago.
+   */
+  scan(minAgeMs: number = 0): Promise<void> {
+    if (!this.scanning) {
+      if (Date.now() - this.lastScan < minAgeMs) {
+        return Promise.resolve();
+      }
+      this.scanning = this.run().finally(() => {
+        this.scanning = null;
+      });
+    }
+    return this.scanning;
+  }
+
+  private async run(): Promise<void> {
+    this.lastScan = Date.now();
+    const started = Date.now();
+    const pause = timeSlicer();
+    let updated = 0;
+    let removed = 0;
+
+    try {
+      const vaultNotes = await listVaultNotesSliced(this.config, pause);
+
+      for (const notePath of vaultNotes) {
+        await pause();
+
+        // SECURITY: All reads go through path validation
+        const validation = validateNotePath(this.config, notePath);
+        if (!validation.valid) continue;
+
+        let stats: fs.Stats;
+        try {
+          stats = fs.statSync(validation.resolvedPath!);
+        } catch {
+          continue;
+        }
+
+        const known = this.notes.get(notePath);
+        if (known && known.mtimeMs === stats.mtimeMs && known.size === stats.size) {
+          continue;
+        }
+
+        let content: string;
+        try {
+          content = fs.readFileSync(validation.resolvedPath!, 'utf-8');
+        } catch {
+          continue;
+        }
+
+        const noteStats: NoteStats = { mtimeMs: stats.mtimeMs, size: stats.size };
+        this.notes.set(notePath, noteStats);
+        for (const consumer of this.consumers) {
+          consumer.update(notePath, content, noteStats);
+        }
+        updated++;
+      }
+
+      const inVault = new Set(vaultNotes);
+      for (const notePath of [...this.notes.keys()]) {
+        if (!inVault.has(notePath)) {
+          this.notes.delete(notePath);
+          for (const consumer of this.consumers) {
+            consumer.remove(notePath);
+          }
+          removed++;
+        }
+      }
+    } catch (e) {
+      log('ERROR', 'vault_scan_failed', { error: String(e) });
+    }
+
+    if (updated > 0 || removed > 0) {
+      for (const consumer of this.consumers) {
+        consumer.scanned?.();
+      }
+      log('INFO', 'vault_scanned', {
+        notes: this.notes.size,
+        updated,
+        removed,
+        durationMs: Date.now() - started,
+      });
+    }
+  }
+}
+
+/**
+ * List all .md notes in the vault, as vault-relative paths with "/"
+ * separators. Awaits `pause` after each directory so a large vault doesn't
+ * hold up the event loop.
+ */
+export async function listVaultNotesSliced(config: Config, pause: () => Promise<void>): Promise<string[]> {
+  const notes: string[] = [];
+  for (const dirNotes of walkVault(config)) {
+    for (const notePath of dirNotes) notes.push(notePath);
+    await pause();
+  }
+  return notes.sort();
+}
+
+/**
+ * Walk the vault one directory at a time, yielding the notes in each.
+ */
+function* walkVault(config: Config): Generator<string[]> {
+  const pending: string[] = [''];
+
+  while (pending.length > 0) {
+    const relDir = pending.pop()!;
+    const absDir = path.join(config.resolvedVaultPath, relDir);
+
+    let dirents: fs.Dirent[];
+    try {
+      dirents = fs.readdirSync(absDir, { withFileTypes: true });
+    } catch (e) {
+      log('WARN', 'vault_read_dir_failed', { dir: relDir, error: String(e) });
+      continue;
+    }
+
+    const notes: string[] = [];
+    for (const dirent of dirents) {
+      // SECURITY: Same rule as validateNotePath - hidden paths are off limits
+      if (dirent.name.startsWith('.')) continue;
+
+      const relPath = relDir ? `${relDir}/${dirent.name}` : dirent.name;
+
+      // SECURITY: Dirent reports symlinks as neither file nor directory,
+      // so symlinked files and directories are never followed
+      if (dirent.isDirectory()) {
+        pending.push(relPath);
+      } else if (dirent.isFile() && dirent.name.toLowerCase().endsWith('.md')) {
+        notes.push(relPath);
+      }
+    }
+    yield notes;
+  }
+}
@@ -0,0 +1,299 @@
+/**
+ * Contiguous vector index for fast exact search.
+ *
+ * All vectors are L2-normalized once and packed into a single Float32Array
+ * (row-major, one row per key). Cosine similarity then reduces to a dot
+ * product, and a bounded min-heap keeps only the best `limit` hits instead
+ * of sorting every match.
+ */
+
+export interface VectorHit {
+  key: string;
+  row: number;
+  score: number;
+}
+
+export interface VectorSearchOptions {
+  limit: number;
+  threshold: number;
+  filter?: (key: string) => boolean; // Applied before scoring
+}
+
+/**
+ * Common interface for exact and approximate (ANN) indexes.
+ */
+export interface SearchIndex {
+  readonly dimensions: number;
+  readonly size: number;
+  has(key: string): boolean;
+  getVector(key: string): Float32Array | undefined; // Normalized; a view into the index (do not modify)
+  search(query: ArrayLike<number>, options: VectorSearchOptions): VectorHit[];
+  dispose(): void; // Stop any background work; searches keep working
+}
+
+export class VectorIndex implements SearchIndex {
+  readonly dimensions: number;
+  private keys: string[];
+  private rows: Map<string, number>;
+  private matrix: Float32Array;
+
+  private constructor(keys: string[], matrix: Float32Array, dimensions: number) {
+    this.keys = keys;
+    this.matrix = matrix;
+    this.dimensions = dimensions;
+    this.rows = new Map(keys.map((key, row) => [key, row]));
+  }
+
+  /**
+   * Build an index from keyed vectors. Vectors whose length differs from
+   * `dimensions` are skipped (the loader has already excluded them).
+   */
+  static build(
+    items: Iterable<[string, { embedding: ArrayLike<number> }]>,
+    dimensions: number
+  ): VectorIndex {
+    const keys: string[] = [];
+    const vectors: ArrayLike<number>[] = [];
+
+    for (const [key, { embedding }] of items) {
+      if (embedding.length !== dimensions) continue;
+      keys.push(key);
+      vectors.push(embedding);
+    }
+
+    const matrix = new Float32Array(keys.length * dimensions);
+    for (let row = 0; row < vectors.length; row++) {
+      matrix.set(vectors[row], row * dimensions);
+      normalizeInPlace(matrix.subarray(row * dimensions, (row + 1) * dimensions));
+    }
+
+    return new VectorIndex(keys, matrix, dimensions);
+  }
+
+  get size(): number {
+    return this.keys.length;
+  }
+
+  has(key: string): boolean {
+    return this.rows.has(key);
+  }
+
+  keyAt(row: number): string {
+    return this.keys[row];
+  }
+
+  /**
+   * Normalized vector for a key (a view into the matrix, do not modify).
+   */
+  getVector(key: string): Float32Array | undefined {
+    const row = this.rows.get(key);
+    return row === undefined ? undefined : this.rowVector(row);
+  }
+
+  rowVector(row: number): Float32Array {
+    return this.matrix.subarray(row * this.dimensions, (row + 1) * this.dimensions);
+  }
+
+  dispose(): void {
+    // Nothing to release: the matrix is garbage collected with the index
+  }
+
+  /**
+   * Dot product of a normalized query with one row, i.e. cosine similarity.
+   */
+  scoreRow(query: Float32Array, row: number): number {
+    return dotAt(query, this.matrix, row * this.dimensions, this.dimensions);
+  }
+
+  /**
+   * Exact top-k search by cosine similarity, best first.
+   */
+  search(query: ArrayLike<number>, options: VectorSearchOptions): VectorHit[] {
+    if (query.length !== this.dimensions) {
+      throw new Error(`Vector dimension mismatch: ${query.length} vs ${this.dimensions}`);
+    }
+
+    const { limit, threshold, filter } = options;
+    const { matrix, dimensions, keys } = this;
+    const q = normalizedCopy(query);
+    const heap = new TopK(limit);
+
+    // Hot loop: one dot product per row of the contiguous matrix
+    for (let row = 0, offset = 0; row < keys.length; row++, offset += dimensions) {
+      if (filter && !filter(keys[row])) continue;
+
+      const score = dotAt(q, matrix, offset, dimensions);
+
+      if (score >= threshold && score >= heap.minScore()) {
+        heap.push(row, score);
+      }
+    }
+
+    return heap.sorted().map(({ row, score }) => ({ key: this.keys[row], row, score }));
+  }
+}
+
+/**
+ * Bounded min-heap keeping the `k` highest scores seen.
+ * Ties are broken by row, so results are deterministic.
+ */
+export class TopK {
+  private k: number;
+  private rows: number[] = [];
+  private scores: number[] = [];
+
+  constructor(k: number) {
+    this.k = k;
+  }
+
+  get size(): number {
+    return this.rows.length;
+  }
+
+  /**
+   * Lowest score currently kept (-Infinity until the heap is full).
+   */
+  minScore(): number {
+    return this.rows.length < this.k ? -Infinity : this.scores[0];
+  }
+
+  push(row: number, score: number): void {
+    if (this.k <= 0) return;
+
+    if (this.rows.length < this.k) {
+      this.rows.push(row);
+      this.scores.push(score);
+      this.siftUp(this.rows.length - 1);
+    } else if (this.less(this.scores[0], this.rows[0], score, row)) {
+      this.rows[0] = row;
+      this.scores[0] = score;
+      this.siftDown(0);
+    }
+  }
+
+  /**
+   * Contents ordered best first.
+   */
+  sorted(): Array<{ row: number; score: number }> {
+    return this.rows
+      .map((row, i) => ({ row, score: this.scores[i] }))
+      .sort((a, b) => b.score - a.score || a.row - b.row);
+  }
+
+  // Heap order: lower score first; on equal scores the higher row is "lower"
+  private less(scoreA: number, rowA: number, scoreB: number, rowB: number): boolean {
+    return scoreA < scoreB || (scoreA === scoreB && rowA > rowB);
+  }
+
+  private siftUp(i: number): void {
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.less(this.scores[i], this.rows[i], this.scores[parent], this.rows[parent])) break;
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  private siftDown(i: number): void {
+    const n = this.rows.length;
+    for (;;) {
+      const left = 2 * i + 1;
+      const right = left + 1;
+      let smallest = i;
+      if (left < n && this.less(this.scores[left], this.rows[left], this.scores[smallest], this.rows[smallest])) {
+        smallest = left;
+      }
+      if (right < n && this.less(this.scores[right], this.rows[right], this.scores[smallest], this.rows[smallest])) {
+        smallest = right;
+      }
+      if (smallest === i) break;
+      this.swap(i, smallest);
+      i = smallest;
+    }
+  }
+
+  private swap(a: number, b: number): void {
+    [this.rows[a], this.rows[b]] = [this.rows[b], this.rows[a]];
+    [this.scores[a], this.scores[b]] = [this.scores[b], this.scores[a]];
+  }
+}
+
+/**
+ * Dot product of `query` with `dimensions` values of `matrix` at `offset`.
+ */
+function dotAt(query: Float32Array, matrix: Float32Array, offset: number, dimensions: number): number {
+  // Four accumulators let the JIT pipeline the multiply-adds
+  let s0 = 0, s1 = 0, s2 = 0, s3 = 0;
+  let i = 0;
+  for (; i + 3 < dimensions; i += 4) {
+    s0 += query[i] * matrix[offset + i];
+    s1 += query[i + 1] * matrix[offset + i + 1];
+    s2 += query[i + 2] * matrix[offset + i + 2];
+    s3 += query[i + 3] * matrix[offset + i + 3];
+  }
+  for (; i < dimensions; i++) {
+    s0 += query[i] * matrix[offset + i];
+  }
+  return s0 + s1 + s2 + s3;
+}
+
+/**
+ * Dot product of two vectors of the same length: their cosine similarity
+ * if both are normalized.
+ */
+export function dot(a: Float32Array, b: Float32Array): number {
+  return dotAt(a, b, 0, a.length);
+}
+
+/**
+ * Copy a vector into a new normalized Float32Array.
+ */
+export function normalizedCopy(vector: ArrayLike<number>): Float32Array {
+  const copy = Float32Array.from(vector);
+  normalizeInPlace(copy);
+  return copy;
+}
+
+/**
+ * L2-normalize a vector in place. Zero vectors are left as zeros.
+ */
+function normalizeInPlace(vector: Float32Array): void {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) {
+    norm += vector[i] * vector[i];
+  }
+  if (norm === 0) return;
+
+  const scale = 1 / Math.sqrt(norm);
+  for (let i = 0; i < vector.length; i++) {
+    vector[i] *= scale;
+  }
+}
+
+/**
+ * Small seeded PRNG (mulberry32), for reproducible builds and clusterings.
+ */
+export function mulberry32(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * For long computations on the main thread: returns a function to call
+ * between steps, which yields to the event loop once `sliceMs` have passed
+ * since the last yield, so pending requests can run.
+ */
+export function timeSlicer(sliceMs: number = 20): () => Promise<void> {
+  let sliceEnd = Date.now() + sliceMs;
+  return async () => {
+    if (Date.now() >= sliceEnd) {
+      await new Promise<void>(resolve => setImmediate(resolve));
+      sliceEnd = Date.now() + sliceMs;
+    }
+  };
+}
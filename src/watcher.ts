@@ -0,0 +1,180 @@
+/**
+ * Watches the vault's .smart-env directory and reloads the index when
+ * Smart Connections re-embeds notes.
+ *
+ * Only changed .ajson files are re-parsed. A change to smart_env.json
+ * (e.g. a different embedding model) triggers a full reload. The new data
+ * object is handed to the caller, which swaps it in atomically. The
+ * snapshot is saved once reloads have been idle for a while, and on stop.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { Config, log } from './security.js';
+import {
+  SmartConnectionsData,
+  ReloadStats,
+  loadSmartConnectionsData,
+  reloadChangedFiles,
+  diffEntries,
+  disposeData,
+} from './data.js';
+import { writeSnapshot } from './snapshot.js';
+
+// Smart Connections writes files in bursts; wait for it to settle
+const DEBOUNCE_MS = 1000;
+
+// Saving the snapshot rewrites every vector; wait until reloads stop
+const SNAPSHOT_DELAY_MS = 30_000;
+
+export type ReloadHandler = (data: SmartConnectionsData) => void;
+
+/**
+ * Start watching .smart-env for changes.
+ *
+ * @param getData - Returns the data currently being served
+ * @param onReload - Called with the new data after each successful reload
+ * @returns A function that stops watching and saves any pending snapshot
+ */
+export function watchSmartEnv(
+  config: Config,
+  getData: () => SmartConnectionsData,
+  onReload: ReloadHandler
+): () => void {
+  const smartEnvPath = path.join(config.resolvedVaultPath, '.smart-env');
+  const multiPath = path.join(smartEnvPath, 'multi');
+
+  const watchers: fs.FSWatcher[] = [];
+  const changedFiles = new Set<string>();
+  let fullReload = false;
+  let timer: NodeJS.Timeout | null = null;
+  let snapshotTimer: NodeJS.Timeout | null = null;
+
+  const schedule = (): void => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(flush, DEBOUNCE_MS);
+  };
+
+  const flush = (): void => {
+    timer = null;
+    const files = [...changedFiles];
+    const full = fullReload;
+    changedFiles.clear();
+    fullReload = false;
+
+    const started = Date.now();
+    const previous = getData();
+
+    try {
+      let next: SmartConnectionsData;
+      let stats: ReloadStats;
+      if (full) {
+        next = loadSmartConnectionsData(config);
+        stats = { ...diffEntries(previous.entries, next.entries), filesParsed: next.files.size };
+        watchMulti(); // multi/ may have been created since startup
+      } else {
+        ({ data: next, stats } = reloadChangedFiles(config, previous, files));
+        if (stats.filesParsed === 0 && stats.removed === 0 && countRemoved(previous.blocks, next.blocks) === 0) {
+          disposeData(next);
+          return; // Nothing actually changed (e.g. only mtime touched)
+        }
+      }
+
+      onReload(next);
+      disposeData(previous);
+      if (full) {
+        cancelSnapshot(); // A full reload writes its own
+      } else {
+        scheduleSnapshot();
+      }
+
+      log('INFO', 'index_reloaded', {
+        full,
+        ...stats,
+        indexedNotes: next.entries.size,
+        indexedBlocks: next.blocks.size,
+        durationMs: Date.now() - started,
+      });
+    } catch (e) {
+      // Keep serving the previous data
+      log('ERROR', 'index_reload_failed', { error: String(e) });
+    }
+  };
+
+  const scheduleSnapshot = (): void => {
+    cancelSnapshot();
+    snapshotTimer = setTimeout(saveSnapshot, SNAPSHOT_DELAY_MS);
+    snapshotTimer.unref();
+  };
+
+  const cancelSnapshot = (): void => {
+    if (snapshotTimer) clearTimeout(snapshotTimer);
+    snapshotTimer = null;
+  };
+
+  const saveSnapshot = (): void => {
+    snapshotTimer = null;
+    const data = getData();
+    writeSnapshot(config, data.modelInfo.modelKey, data.files);
+  };
+
+  const watch = (dir: string, listener: (filename: string) => void): void => {
+    try {
+      const watcher = fs.watch(dir, { persistent: false }, (_event, filename) => {
+        if (filename) listener(filename.toString());
+      });
+      watcher.on('error', (e) => {
+        log('WARN', 'index_watch_error', { dir: path.basename(dir), error: String(e) });
+      });
+      watchers.push(watcher);
+    } catch (e) {
+      log('WARN', 'index_watch_failed', { dir: path.basename(dir), error: String(e) });
+    }
+  };
+
+  watch(smartEnvPath, (filename) => {
+    // A new model config or a recreated multi/ directory needs a full reload
+    if (filename === 'smart_env.json' || filename === 'multi') {
+      fullReload = true;
+      schedule();
+    }
+  });
+
+  let watchingMulti = false;
+  function watchMulti(): void {
+    if (watchingMulti || !fs.existsSync(multiPath)) return;
+    watchingMulti = true;
+    watch(multiPath, (filename) => {
+      if (filename.endsWith('.ajson')) {
+        changedFiles.add(filename);
+        schedule();
+      }
+    });
+  }
+
+  watchMulti();
+
+  log('INFO', 'index_watch_started', { watching: watchers.length });
+
+  return () => {
+    if (timer) clearTimeout(timer);
+    for (const watcher of watchers) {
+      watcher.close();
+    }
+    if (snapshotTimer) {
+      clearTimeout(snapshotTimer);
+      saveSnapshot();
+    }
+  };
+}
+
+/**
+ * Number of keys in `before` that are missing from `after`.
+ */
+function countRemoved(before: Map<string, unknown>, after: Map<string, unknown>): number {
+  let removed = 0;
+  for (const key of before.keys()) {
+    if (!after.has(key)) removed++;
+  }
+  return removed;
+}
@@ -0,0 +1,351 @@
+/**
+ * Worker-thread pool for model inference.
+ *
+ * Transformers.js inference is synchronous CPU work; on the main thread
+ * one slow call stalls every other MCP request. A WorkerPool runs a model
+ * in each of `workers` threads (a worker script built on serveWorker) and
+ * hands requests to idle workers in arrival order. EmbedPool (query
+ * embeddings) and RerankPool (cross-encoder) are built on it.
+ *
+ * Requests waiting for a worker are held in a bounded queue; when it is
+ * full, new requests fail fast with `queue_full` instead of piling up.
+ * Each request has a deadline covering queueing and inference. A request
+ * cancelled while queued is dropped; one cancelled while running is
+ * abandoned and its result discarded. A worker that overruns the deadline
+ * is assumed stuck and replaced.
+ */
+
+import { Worker, parentPort } from 'node:worker_threads';
+import { EmbedPoolConfig, log } from './security.js';
+import { EmbedRequestError } from './embeddings.js';
+import { ModelSource } from './models.js';
+
+export interface WorkerPoolOptions {
+  name: string; // Log event prefix, e.g. "embed"
+  task: string; // Noun for error messages, e.g. "Embedding"
+  model: string; // Logged at startup
+  script: URL; // Worker script
+  workerData: unknown; // Passed to each worker
+  limits: EmbedPoolConfig;
+}
+
+export interface PoolStats {
+  workers: number;
+  busy: number; // Workers running a request
+  queued: number;
+  queueSize: number;
+}
+
+// Messages sent by worker scripts
+type WorkerMessage<Res> =
+  | { type: 'ready'; source: ModelSource }
+  | { type: 'init_failed'; error: string }
+  | { type: 'result'; id: number; result: Res }
+  | { type: 'error'; id: number; error: string };
+
+interface Job<Req, Res> {
+  id: number;
+  request: Req;
+  resolve: (result: Res) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+  settled: boolean;
+}
+
+interface PoolWorker<Req, Res> {
+  worker: Worker;
+  job: Job<Req, Res> | null;
+}
+
+export class WorkerPool<Req, Res> {
+  private options: WorkerPoolOptions;
+  private limits: EmbedPoolConfig;
+  private workers: PoolWorker<Req, Res>[] = [];
+  private queue: Job<Req, Res>[] = [];
+  private nextId = 1;
+  private closed: boolean = false;
+
+  constructor(options: WorkerPoolOptions) {
+    this.options = options;
+    this.limits = options.limits;
+  }
+
+  /**
+   * Start the workers. The first loads (and if needed downloads) the
+   * model alone; the rest start once it is ready and load from the cache.
+   * Returns where the model was loaded from.
+   */
+  async initialize(): Promise<ModelSource> {
+    const { name, model } = this.options;
+    log('INFO', `${name}_pool_starting`, { model, workers: this.limits.workers });
+
+    let source: ModelSource;
+    try {
+      source = (await this.startWorker()).source;
+      await Promise.all(Array.from({ length: this.limits.workers - 1 }, () => this.startWorker()));
+    } catch (e) {
+      this.close();
+      throw e instanceof Error ? e : new Error(String(e));
+    }
+
+    log('INFO', `${name}_pool_ready`, { model, workers: this.workers.length });
+    return source;
+  }
+
+  getStats(): PoolStats {
+    return {
+      workers: this.workers.length,
+      busy: this.workers.filter(w => w.job).length,
+      queued: this.queue.length,
+      queueSize: this.limits.queueSize,
+    };
+  }
+
+  /**
+   * Run a request on the next idle worker.
+   *
+   * Throws EmbedRequestError for a full queue, a timeout or cancellation
+   * through `signal`.
+   */
+  run(request: Req, signal?: AbortSignal): Promise<Res> {
+    const { name, task } = this.options;
+    if (this.closed) {
+      return Promise.reject(new EmbedRequestError('cancelled', `${task} workers shut down`));
+    }
+    if (signal?.aborted) {
+      return Promise.reject(new EmbedRequestError('cancelled', `${task} request cancelled`));
+    }
+
+    const idle = this.workers.find(w => !w.job);
+    if (!idle && this.queue.length >= this.limits.queueSize) {
+      log('WARN', `${name}_queue_full`, { queued: this.queue.length });
+      return Promise.reject(new EmbedRequestError(
+        'queue_full',
+        `Too many ${task.toLowerCase()} requests in progress; retry shortly`
+      ));
+    }
+
+    return new Promise((resolve, reject) => {
+      const job: Job<Req, Res> = {
+        id: this.nextId++,
+        request,
+        resolve,
+        reject,
+        signal,
+        timer: setTimeout(() => this.timeOut(job), this.limits.timeoutMs),
+        settled: false,
+      };
+
+      if (signal) {
+        job.onAbort = () => this.cancel(job);
+        signal.addEventListener('abort', job.onAbort, { once: true });
+      }
+
+      if (idle) {
+        this.dispatch(idle, job);
+      } else {
+        this.queue.push(job);
+      }
+    });
+  }
+
+  /**
+   * Stop all workers. Pending requests are cancelled.
+   */
+  close(): void {
+    this.closed = true;
+    const error = new EmbedRequestError('cancelled', `${this.options.task} workers shut down`);
+    for (const job of [...this.queue, ...this.workers.map(w => w.job)]) {
+      if (job) this.settle(job, error);
+    }
+    this.queue = [];
+    for (const { worker } of this.workers) {
+      void worker.terminate();
+    }
+    this.workers = [];
+  }
+
+  private startWorker(): Promise<{ entry: PoolWorker<Req, Res>; source: ModelSource }> {
+    const { name, task } = this.options;
+    const worker = new Worker(this.options.script, { workerData: this.options.workerData });
+    const entry: PoolWorker<Req, Res> = { worker, job: null };
+
+    return new Promise((resolve, reject) => {
+      let started = false;
+
+      worker.once('message', (message: WorkerMessage<Res>) => {
+        if (message.type === 'ready') {
+          started = true;
+          this.workers.push(entry);
+          worker.on('message', (m: WorkerMessage<Res>) => this.onMessage(entry, m));
+          resolve({ entry, source: message.source });
+        } else {
+          void worker.terminate();
+          reject(new Error(message.type === 'init_failed' ? message.error : 'unexpected worker message'));
+        }
+      });
+
+      // An 'error' event is always followed by 'exit', handled below
+      worker.on('error', (e) => {
+        if (started) {
+          log('ERROR', `${name}_worker_error`, { error: String(e) });
+        } else {
+          reject(e);
+        }
+      });
+
+      worker.on('exit', (code) => {
+        if (started) {
+          this.onExit(entry, code);
+        } else {
+          reject(new Error(`${task} worker exited during startup (code ${code})`));
+        }
+      });
+    });
+  }
+
+  private dispatch(entry: PoolWorker<Req, Res>, job: Job<Req, Res>): void {
+    entry.job = job;
+    entry.worker.postMessage({ id: job.id, request: job.request });
+  }
+
+  private onMessage(entry: PoolWorker<Req, Res>, message: WorkerMessage<Res>): void {
+    const job = entry.job;
+    if (message.type !== 'result' && message.type !== 'error') return;
+
+    entry.job = null;
+    // An abandoned job already settled; only the worker is freed
+    if (job && job.id === message.id) {
+      if (message.type === 'result') {
+        this.settle(job, null, message.result);
+      } else {
+        this.settle(job, new Error(message.error));
+      }
+    }
+    this.next(entry);
+  }
+
+  private onExit(entry: PoolWorker<Req, Res>, code: number): void {
+    const index = this.workers.indexOf(entry);
+    if (index === -1) return; // Removed by close()
+    this.workers.splice(index, 1);
+
+    if (entry.job) {
+      this.settle(entry.job, new Error(`${this.options.task} worker exited (code ${code})`));
+      entry.job = null;
+    }
+
+    if (!this.closed) {
+      log('WARN', `${this.options.name}_worker_exited`, { code });
+      this.replaceWorker();
+    }
+  }
+
+  /**
+   * Start a worker in place of one that exited, then give it queued work.
+   */
+  private replaceWorker(): void {
+    this.startWorker()
+      .then(({ entry }) => {
+        if (this.closed) {
+          void entry.worker.terminate();
+        } else {
+          this.next(entry);
+        }
+      })
+      .catch((e) => {
+        log('ERROR', `${this.options.name}_worker_restart_failed`, { error: String(e) });
+        // With no workers left, nothing will drain the queue
+        if (this.workers.length === 0) {
+          for (const job of this.queue) {
+            this.settle(job, new Error(`No ${this.options.task.toLowerCase()} workers available`));
+          }
+          this.queue = [];
+        }
+      });
+  }
+
+  private next(entry: PoolWorker<Req, Res>): void {
+    const job = this.queue.shift();
+    if (job) {
+      this.dispatch(entry, job);
+    }
+  }
+
+  private timeOut(job: Job<Req, Res>): void {
+    const { name, task } = this.options;
+    const queued = this.queue.indexOf(job);
+    if (queued !== -1) {
+      this.queue.splice(queued, 1);
+    }
+    this.settle(job, new EmbedRequestError('timeout', `${task} took longer than ${this.limits.timeoutMs}ms`));
+
+    // Still running: the worker is stuck or far too slow, so replace it
+    const entry = this.workers.find(w => w.job === job);
+    if (entry) {
+      log('WARN', `${name}_worker_timeout`, { timeoutMs: this.limits.timeoutMs });
+      void entry.worker.terminate();
+    }
+  }
+
+  private cancel(job: Job<Req, Res>): void {
+    const queued = this.queue.indexOf(job);
+    if (queued !== -1) {
+      this.queue.splice(queued, 1);
+    }
+    // A running job can't be interrupted; its result is discarded
+    this.settle(job, new EmbedRequestError('cancelled', `${this.options.task} request cancelled`));
+  }
+
+  /**
+   * Resolve or reject a job once, and release its timer and listener.
+   */
+  private settle(job: Job<Req, Res>, error: Error | null, result?: Res): void {
+    if (job.settled) return;
+    job.settled = true;
+
+    clearTimeout(job.timer);
+    if (job.onAbort) {
+      job.signal?.removeEventListener('abort', job.onAbort);
+      job.onAbort = undefined;
+    }
+    if (error) {
+      job.reject(error);
+    } else {
+      job.resolve(result!);
+    }
+  }
+}
+
+/**
+ * Worker script side of a WorkerPool: load the model, report ready, then
+ * handle one request at a time. Errors are reported back per request;
+ * the worker itself keeps running.
+ *
+ * @param load - Loads the model; returns where it was loaded from
+ * @param handle - Runs a request; returns the result and any buffers to transfer
+ */
+export async function serveWorker<Req, Res>(
+  load: () => Promise<ModelSource>,
+  handle: (request: Req) => Promise<{ result: Res; transfer?: ArrayBuffer[] }>
+): Promise<void> {
+  const port = parentPort!;
+  const send = (message: WorkerMessage<Res>, transfer: ArrayBuffer[] = []) => port.postMessage(message, transfer);
+
+  try {
+    send({ type: 'ready', source: await load() });
+  } catch (e) {
+    send({ type: 'init_failed', error: e instanceof Error ? e.message : String(e) });
+  }
+
+  port.on('message', async ({ id, request }: { id: number; request: Req }) => {
+    try {
+      const { result, transfer } = await handle(request);
+      send({ type: 'result', id, result }, transfer);
+    } catch (e) {
+      send({ type: 'error', id, error: e instanceof Error ? e.message : String(e) });
+    }
+  });
+}